@@ -0,0 +1,30 @@
+import { readFileSync } from 'node:fs';
+import { parseLevelJson } from '../src/game/level/parse';
+import { verifyLevel } from '../src/game/level/verify';
+
+// npm run verify -- <level.json> [players 1-4]
+// Exits with 1 when the level can't be completed with that many players.
+const [file, players = '2'] = process.argv.slice(2);
+const playerCount = Number(players);
+if (!file || !Number.isInteger(playerCount) || playerCount < 1 || playerCount > 4) {
+  console.error('Usage: npm run verify -- <level.json> [players 1-4]');
+  process.exit(2);
+}
+
+const { level, issues } = parseLevelJson(readFileSync(file, 'utf8'), { width: 960, height: 540 });
+for (const issue of issues) console.error(`${issue.severity}: ${issue.path} ${issue.message}`);
+if (!level) process.exit(2);
+
+const report = verifyLevel(level, playerCount);
+console.log(
+  `${report.solvable ? 'Solvable' : 'Not solvable'} with ${report.playerCount}` +
+    ` player${report.playerCount === 1 ? '' : 's'}` +
+    ` (jump: ${report.jump.height}px up, ${report.jump.distance}px across)`
+);
+for (const finding of report.findings) {
+  if (finding.ok) continue;
+  const at = `${Math.round(finding.at.x)},${Math.round(finding.at.y)}`;
+  console.log(`  ${finding.label} at ${at}: ${finding.reasons.join('; ')}`);
+}
+for (const note of report.notes) console.log(`  Note: ${note}`);
+process.exit(report.solvable ? 0 : 1);
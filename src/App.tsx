@@ -1,13 +1,76 @@
-import { useEffect, useRef, useState } from 'react';
-import { initGame, type EditorTool, type GameApi } from './game/Game';
+import { Fragment, useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import {
+  initGame,
+  type EditorTool,
+  type GameApi,
+  type BridgePath,
+  type GateKind,
+  type InspectorTarget,
+  type LinkTarget,
+  type PackStatus,
+  type PluginToolInfo
+} from './game/Game';
+import type { LevelIssue, LevelParseResult } from './game/level/parse';
+import type { LevelLibraryEntry } from './game/level/library';
+import type { LevelPackMeta } from './game/level/pack';
+import type { VerifyReport } from './game/level/verify';
+import { INPUT_ACTIONS, keyLabel, type InputAction, type KeyboardProfile } from './game/input/bindings';
+import { MAX_DEADZONE, MIN_DEADZONE, type GamepadField, type GamepadMapping } from './game/input/gamepad';
+import { PALETTE_IDS, PALETTES, type PaletteId, type PaletteSettings } from './game/render/palette';
+import { THEME_IDS, THEMES, type ThemeId } from './game/render/theme';
+import type { AudioSettings } from './game/audio/sfx';
+import { linkTargetKey } from './game/entities/links';
+import { GATE_KINDS } from './game/entities/gate';
+import { createBridgePath } from './game/entities/bridge';
+import { bouncePad } from './game/plugins/bouncePad';
 import AIcon from './assets/a-filled.svg';
 import CrossIcon from './assets/plain-cross.svg';
 import './App.css';
 
+const GATE_LABELS: Record<GateKind, string> = {
+  and: 'AND',
+  or: 'OR',
+  not: 'NOT',
+  toggle: 'Toggle',
+  delay: 'Delay'
+};
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  left: 'Left',
+  right: 'Right',
+  jump: 'Jump',
+  leave: 'Leave (hold)',
+  pause: 'Pause'
+};
+
+const GAMEPAD_FIELD_LABELS: Record<GamepadField, string> = {
+  axis: 'Move stick',
+  jump: 'Jump',
+  menu: 'Pause',
+  back: 'Leave (hold)',
+  retry: 'Retry',
+  dpadLeft: 'D-pad left',
+  dpadRight: 'D-pad right'
+};
+
+function gamepadFieldValue(mapping: GamepadMapping, field: GamepadField): string {
+  if (field === 'axis') return `Axis ${mapping.axis}`;
+  if (field === 'menu') return mapping.menu.map(b => `Button ${b}`).join(' / ');
+  return `Button ${mapping[field]}`;
+}
+
+function linkTargetLabel(target: LinkTarget): string {
+  if (target.kind === 'door') return 'Door';
+  const names = { bridge: 'Bridge', spike: 'Spikes', gate: 'Gate' };
+  return `${names[target.kind]} #${target.id}`;
+}
+
 function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameApiRef = useRef<GameApi | null>(null);
   const importInputRef = useRef<HTMLInputElement>(null);
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
   const [editorEnabled, setEditorEnabled] = useState(false);
   const [editorTool, setEditorTool] = useState<EditorTool>('platform');
   const [blockRequired, setBlockRequired] = useState(2);
@@ -15,10 +78,156 @@ function App() {
   const [blockAllowedPlayer, setBlockAllowedPlayer] = useState(0);
   const [levelWidth, setLevelWidth] = useState(0);
   const [levelHeight, setLevelHeight] = useState(0);
+  const [levelTheme, setLevelTheme] = useState<ThemeId | null>(null);
   const [bridgeMove, setBridgeMove] = useState({ dx: 1, dy: 0 });
   const [bridgeDistance, setBridgeDistance] = useState(200);
   const [bridgePermanent, setBridgePermanent] = useState(false);
   const [bridgeRequiredPlayers, setBridgeRequiredPlayers] = useState(0);
+  const [gateKind, setGateKind] = useState<GateKind>('and');
+  const [pluginTools, setPluginTools] = useState<PluginToolInfo[]>([]);
+  const [importReport, setImportReport] = useState<{ ok: boolean; issues: LevelIssue[] } | null>(null);
+  const [verifyPlayers, setVerifyPlayers] = useState(2);
+  const [verifyReport, setVerifyReport] = useState<VerifyReport | null>(null);
+  const [levels, setLevels] = useState<LevelLibraryEntry[]>([]);
+  const [currentLevelId, setCurrentLevelId] = useState<string | null>(null);
+  const [packs, setPacks] = useState<LevelPackMeta[]>([]);
+  const [packStatus, setPackStatus] = useState<PackStatus | null>(null);
+  const [inspector, setInspector] = useState<InspectorTarget | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const [ghostVisible, setGhostVisible] = useState(true);
+  const [controlsOpen, setControlsOpen] = useState(false);
+  const [paletteSettings, setPaletteSettings] = useState<PaletteSettings>({ palette: 'default', glyphs: false });
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>({ master: 0.8, sfx: 0.8, muted: false });
+  const [keyboardProfiles, setKeyboardProfiles] = useState<KeyboardProfile[]>([]);
+  const [keyRebind, setKeyRebind] = useState<{ profile: number; action: InputAction } | null>(null);
+  const [gamepads, setGamepads] = useState<Array<{ index: number; id: string; mapping: GamepadMapping }>>([]);
+  const [gamepadRebind, setGamepadRebind] = useState<{ index: number; field: GamepadField } | null>(null);
+
+  const syncLevelLibrary = (api: GameApi) => {
+    setLevels(api.listLevels());
+    setCurrentLevelId(api.getCurrentLevelId());
+    setPacks(api.listPacks());
+    setPackStatus(api.getPackStatus());
+    setReplaying(api.isReplaying());
+    const size = api.getLevelSize();
+    setLevelWidth(size.width);
+    setLevelHeight(size.height);
+    setLevelTheme(api.getLevelTheme());
+  };
+
+  const showImportResult = (result: LevelParseResult) => {
+    setImportReport(result.issues.length > 0 || !result.level ? { ok: Boolean(result.level), issues: result.issues } : null);
+  };
+
+  const renderTargetList = (
+    targets: LinkTarget[],
+    available: LinkTarget[],
+    source: 'button' | 'gate'
+  ) =>
+    available.map(target => {
+      const key = linkTargetKey(target);
+      const linked = targets.some(t => linkTargetKey(t) === key);
+      return (
+        <label key={key} className="checkbox-row">
+          <input
+            type="checkbox"
+            checked={linked}
+            onChange={() => {
+              const api = gameApiRef.current;
+              if (!api) return;
+              const next = linked ? targets.filter(t => linkTargetKey(t) !== key) : [...targets, target];
+              if (source === 'button') api.updateSelectedButton({ targets: next });
+              else api.updateSelectedGate({ targets: next });
+              setInspector(api.getInspectorTarget());
+            }}
+          />
+          {linkTargetLabel(target)}
+        </label>
+      );
+    });
+
+  // Typed inspector values apply as they change and become one undo step when
+  // the field is left or Enter is pressed.
+  const commitFieldProps = {
+    onBlur: () => gameApiRef.current?.commitSelectionEdit(),
+    onKeyDown: (e: KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') gameApiRef.current?.commitSelectionEdit();
+    }
+  };
+
+  const renderBridgePath = (path: BridgePath) => {
+    const update = (patch: Partial<BridgePath>, commit = true) => {
+      const api = gameApiRef.current;
+      if (!api) return;
+      api.updateSelectedBridge({ path: { ...path, ...patch } }, commit);
+      setInspector(api.getInspectorTarget());
+    };
+    return (
+      <>
+        <div className="block-settings-label">Alt+click in the level to add a waypoint, drag to move it</div>
+        <div className="block-settings-label">Speed (px per frame)</div>
+        <input
+          type="number"
+          min={0.25}
+          step={0.25}
+          value={path.speed}
+          {...commitFieldProps}
+          onChange={(e) => {
+            const next = Number(e.target.value);
+            if (!Number.isFinite(next)) return;
+            update({ speed: next }, false);
+          }}
+        />
+        <div className="block-settings-buttons">
+          <button
+            type="button"
+            className={path.mode === 'pingpong' ? 'active mini' : 'mini'}
+            onClick={() => update({ mode: 'pingpong' })}
+          >
+            Ping-pong
+          </button>
+          <button
+            type="button"
+            className={path.mode === 'loop' ? 'active mini' : 'mini'}
+            onClick={() => update({ mode: 'loop' })}
+          >
+            Loop
+          </button>
+        </div>
+        <div className="block-settings-buttons">
+          <button
+            type="button"
+            className={path.trigger === 'button' ? 'active mini' : 'mini'}
+            onClick={() => update({ trigger: 'button' })}
+          >
+            While powered
+          </button>
+          <button
+            type="button"
+            className={path.trigger === 'always' ? 'active mini' : 'mini'}
+            onClick={() => update({ trigger: 'always' })}
+          >
+            Always
+          </button>
+        </div>
+        {path.waypoints.map((w, i) => (
+          <div key={i} className="waypoint-row">
+            <span>
+              #{i + 1} ({w.x}, {w.y})
+            </span>
+            <button
+              type="button"
+              className="mini"
+              aria-label={`Remove waypoint ${i + 1}`}
+              onClick={() => update({ waypoints: path.waypoints.filter((_, j) => j !== i) })}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </>
+    );
+  };
 
   const downloadTextFile = (filename: string, text: string) => {
     const blob = new Blob([text], { type: 'application/json' });
@@ -50,7 +259,7 @@ function App() {
 
   useEffect(() => {
     if (canvasRef.current) {
-      const { destroy, api } = initGame(canvasRef.current);
+      const { destroy, api } = initGame(canvasRef.current, { plugins: [bouncePad] });
       gameApiRef.current = api;
       setEditorEnabled(api.getEditorEnabled());
       setEditorTool(api.getEditorTool());
@@ -58,11 +267,32 @@ function App() {
       const size = api.getLevelSize();
       setLevelWidth(size.width);
       setLevelHeight(size.height);
+      setLevelTheme(api.getLevelTheme());
       setBridgeMove(api.getBridgeMove());
       setBridgeDistance(api.getBridgeDistance());
       setBridgePermanent(api.getBridgePermanent());
       setBridgeRequiredPlayers(api.getBridgeRequiredPlayers());
+      setGateKind(api.getGateKind());
+      setPluginTools(api.listEntityPlugins());
+      setLevels(api.listLevels());
+      setCurrentLevelId(api.getCurrentLevelId());
+      setPacks(api.listPacks());
+      setGhostVisible(api.getGhostVisible());
+      setPaletteSettings(api.getPaletteSettings());
+      setAudioSettings(api.getAudioSettings());
+      const unsubscribeSelection = api.onSelectionChange(() => {
+        setInspector(api.getInspectorTarget());
+      });
+      setKeyboardProfiles(api.getKeyboardProfiles());
+      const unsubscribeBindings = api.onBindingsChange(() => {
+        setKeyboardProfiles(api.getKeyboardProfiles());
+        setKeyRebind(api.getKeyRebind());
+        setGamepads(api.listGamepads());
+        setGamepadRebind(api.getGamepadRebind());
+      });
       return () => {
+        unsubscribeSelection();
+        unsubscribeBindings();
         gameApiRef.current = null;
         destroy();
       };
@@ -99,6 +329,17 @@ function App() {
                 ↷
               </button>
             </div>
+            <button
+              type="button"
+              className={editorTool === 'select' ? 'active' : undefined}
+              onClick={() => {
+                const api = gameApiRef.current;
+                if (!api) return;
+                setEditorTool(api.setEditorTool('select'));
+              }}
+            >
+              Select
+            </button>
             <button
               type="button"
               className={editorTool === 'platform' ? 'active' : undefined}
@@ -370,6 +611,39 @@ function App() {
             >
               Button
             </button>
+            <button
+              type="button"
+              className={editorTool === 'gate' ? 'active' : undefined}
+              onClick={() => {
+                const api = gameApiRef.current;
+                if (!api) return;
+                setEditorTool(api.setEditorTool('gate'));
+                setGateKind(api.getGateKind());
+              }}
+            >
+              Logic gate ({GATE_LABELS[gateKind]})
+            </button>
+            {editorTool === 'gate' && (
+              <div className="bridge-settings">
+                <div className="block-settings-label">Gate type</div>
+                <div className="block-settings-buttons">
+                  {GATE_KINDS.map(kind => (
+                    <button
+                      key={kind}
+                      type="button"
+                      className={gateKind === kind ? 'active mini' : 'mini'}
+                      onClick={() => {
+                        const api = gameApiRef.current;
+                        if (!api) return;
+                        setGateKind(api.setGateKind(kind));
+                      }}
+                    >
+                      {GATE_LABELS[kind]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             <button
               type="button"
               className={editorTool === 'spawn' ? 'active' : undefined}
@@ -381,6 +655,17 @@ function App() {
             >
               Spawn
             </button>
+            <button
+              type="button"
+              className={editorTool === 'checkpoint' ? 'active' : undefined}
+              onClick={() => {
+                const api = gameApiRef.current;
+                if (!api) return;
+                setEditorTool(api.setEditorTool('checkpoint'));
+              }}
+            >
+              Checkpoint
+            </button>
             <button
               type="button"
               className={editorTool === 'spike' ? 'active' : undefined}
@@ -392,6 +677,82 @@ function App() {
             >
               Spikes
             </button>
+            {pluginTools.map(tool => (
+              <Fragment key={tool.type}>
+                <button
+                  type="button"
+                  className={editorTool === `plugin:${tool.type}` ? 'active' : undefined}
+                  onClick={() => {
+                    const api = gameApiRef.current;
+                    if (!api) return;
+                    setEditorTool(api.setEditorTool(`plugin:${tool.type}`));
+                  }}
+                >
+                  {tool.name}
+                </button>
+                {editorTool === `plugin:${tool.type}` && tool.settings.length > 0 && (
+                  <div className="bridge-settings">
+                    {tool.settings.map(setting => {
+                      const value = tool.values[setting.key];
+                      const update = (next: number | boolean | string) => {
+                        const api = gameApiRef.current;
+                        if (!api) return;
+                        api.setPluginSetting(tool.type, setting.key, next);
+                        setPluginTools(api.listEntityPlugins());
+                      };
+                      if (setting.kind === 'boolean') {
+                        return (
+                          <label key={setting.key} className="checkbox-row">
+                            <input
+                              type="checkbox"
+                              checked={value === true}
+                              onChange={(e) => update(e.target.checked)}
+                            />
+                            {setting.label}
+                          </label>
+                        );
+                      }
+                      if (setting.kind === 'select') {
+                        return (
+                          <Fragment key={setting.key}>
+                            <div className="block-settings-label">{setting.label}</div>
+                            <div className="block-settings-buttons">
+                              {setting.options.map(option => (
+                                <button
+                                  key={option.value}
+                                  type="button"
+                                  className={value === option.value ? 'active mini' : 'mini'}
+                                  onClick={() => update(option.value)}
+                                >
+                                  {option.label}
+                                </button>
+                              ))}
+                            </div>
+                          </Fragment>
+                        );
+                      }
+                      return (
+                        <Fragment key={setting.key}>
+                          <div className="block-settings-label">{setting.label}</div>
+                          <input
+                            type="number"
+                            min={setting.min}
+                            max={setting.max}
+                            step={setting.step}
+                            value={typeof value === 'number' ? value : setting.default}
+                            onChange={(e) => {
+                              const next = Number(e.target.value);
+                              if (!Number.isFinite(next)) return;
+                              update(next);
+                            }}
+                          />
+                        </Fragment>
+                      );
+                    })}
+                  </div>
+                )}
+              </Fragment>
+            ))}
             <button
               type="button"
               className={editorTool === 'erase' ? 'active' : undefined}
@@ -404,6 +765,325 @@ function App() {
               Erase
             </button>
           </div>
+          {inspector && (
+            <>
+              <div className="sidebar-title">Inspector</div>
+              <div className="sidebar-section inspector">
+                {inspector.kind === 'bridge' && (
+                  <>
+                    <div className="block-settings-label">Bridge #{inspector.def.id} direction</div>
+                    <div className="block-settings-buttons">
+                      {(
+                        [
+                          [0, -1, '↑'],
+                          [-1, 0, '←'],
+                          [1, 0, '→'],
+                          [0, 1, '↓']
+                        ] as const
+                      ).map(([dx, dy, label]) => (
+                        <button
+                          key={label}
+                          type="button"
+                          className={inspector.def.dx === dx && inspector.def.dy === dy ? 'active mini' : 'mini'}
+                          onClick={() => {
+                            gameApiRef.current?.updateSelectedBridge({ dx, dy });
+                            setInspector(gameApiRef.current?.getInspectorTarget() ?? null);
+                          }}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="block-settings-label">Move distance</div>
+                    <input
+                      type="number"
+                      value={inspector.def.distance}
+                      {...commitFieldProps}
+                      onChange={(e) => {
+                        const next = Number(e.target.value);
+                        if (!Number.isFinite(next)) return;
+                        gameApiRef.current?.updateSelectedBridge({ distance: next }, false);
+                        setInspector(gameApiRef.current?.getInspectorTarget() ?? null);
+                      }}
+                    />
+                    <div className="block-settings-label">Players required on elevator</div>
+                    <input
+                      type="number"
+                      min={0}
+                      max={4}
+                      value={inspector.def.requiredPlayers ?? 0}
+                      {...commitFieldProps}
+                      onChange={(e) => {
+                        const next = Number(e.target.value);
+                        if (!Number.isFinite(next)) return;
+                        gameApiRef.current?.updateSelectedBridge({ requiredPlayers: next }, false);
+                        setInspector(gameApiRef.current?.getInspectorTarget() ?? null);
+                      }}
+                    />
+                    <label className="checkbox-row">
+                      <input
+                        type="checkbox"
+                        checked={inspector.def.permanent}
+                        onChange={(e) => {
+                          gameApiRef.current?.updateSelectedBridge({ permanent: e.target.checked });
+                          setInspector(gameApiRef.current?.getInspectorTarget() ?? null);
+                        }}
+                      />
+                      Permanent after pressed
+                    </label>
+                    <label className="checkbox-row">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(inspector.def.path)}
+                        onChange={(e) => {
+                          gameApiRef.current?.updateSelectedBridge({ path: e.target.checked ? createBridgePath() : null });
+                          setInspector(gameApiRef.current?.getInspectorTarget() ?? null);
+                        }}
+                      />
+                      Follow waypoint path
+                    </label>
+                    {inspector.def.path && renderBridgePath(inspector.def.path)}
+                  </>
+                )}
+                {inspector.kind === 'block' && (
+                  <>
+                    <div className="block-settings-label">Required pushers</div>
+                    <div className="block-settings-buttons">
+                      {[1, 2, 3, 4].map(n => (
+                        <button
+                          key={n}
+                          type="button"
+                          className={inspector.def.allowedPlayer === undefined && inspector.def.required === n ? 'active mini' : 'mini'}
+                          onClick={() => {
+                            gameApiRef.current?.updateSelectedBlock({ required: n });
+                            setInspector(gameApiRef.current?.getInspectorTarget() ?? null);
+                          }}
+                        >
+                          {n}p
+                        </button>
+                      ))}
+                    </div>
+                    <div className="block-settings-label">Allowed player</div>
+                    <div className="block-settings-buttons">
+                      {[0, 1, 2, 3].map(slot => (
+                        <button
+                          key={slot}
+                          type="button"
+                          className={inspector.def.allowedPlayer === slot ? 'active mini' : 'mini'}
+                          onClick={() => {
+                            gameApiRef.current?.updateSelectedBlock({ allowedPlayer: slot });
+                            setInspector(gameApiRef.current?.getInspectorTarget() ?? null);
+                          }}
+                        >
+                          P{slot + 1}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+                {inspector.kind === 'button' && (
+                  <>
+                    <div className="block-settings-label">Button #{inspector.def.id} targets</div>
+                    {renderTargetList(inspector.def.targets, inspector.available, 'button')}
+                  </>
+                )}
+                {inspector.kind === 'gate' && (
+                  <>
+                    <div className="block-settings-label">Gate #{inspector.def.id} type</div>
+                    <div className="block-settings-buttons">
+                      {GATE_KINDS.map(kind => (
+                        <button
+                          key={kind}
+                          type="button"
+                          className={inspector.def.kind === kind ? 'active mini' : 'mini'}
+                          onClick={() => {
+                            gameApiRef.current?.updateSelectedGate({ kind });
+                            setInspector(gameApiRef.current?.getInspectorTarget() ?? null);
+                          }}
+                        >
+                          {GATE_LABELS[kind]}
+                        </button>
+                      ))}
+                    </div>
+                    {inspector.def.kind === 'delay' && (
+                      <>
+                        <div className="block-settings-label">Delay (frames, 60 = 1s)</div>
+                        <input
+                          type="number"
+                          min={0}
+                          value={inspector.def.delayFrames ?? 0}
+                          {...commitFieldProps}
+                          onChange={(e) => {
+                            const next = Number(e.target.value);
+                            if (!Number.isFinite(next)) return;
+                            gameApiRef.current?.updateSelectedGate({ delayFrames: next }, false);
+                            setInspector(gameApiRef.current?.getInspectorTarget() ?? null);
+                          }}
+                        />
+                      </>
+                    )}
+                    <div className="block-settings-label">Gate #{inspector.def.id} targets</div>
+                    {renderTargetList(inspector.def.targets, inspector.available, 'gate')}
+                  </>
+                )}
+              </div>
+            </>
+          )}
+          <div className="sidebar-title">Levels</div>
+          <div className="sidebar-section">
+            <div className="level-list">
+              {levels.map(level => (
+                <button
+                  key={level.id}
+                  type="button"
+                  className={level.id === currentLevelId ? 'active' : undefined}
+                  onClick={() => {
+                    const api = gameApiRef.current;
+                    if (!api) return;
+                    api.openLevel(level.id);
+                    setImportReport(null);
+                    syncLevelLibrary(api);
+                  }}
+                >
+                  {level.name}
+                </button>
+              ))}
+            </div>
+            <div className="block-settings-buttons">
+              <button
+                type="button"
+                className="mini"
+                onClick={() => {
+                  const api = gameApiRef.current;
+                  if (!api) return;
+                  const name = window.prompt('New level name', 'Untitled level');
+                  if (name === null) return;
+                  api.createLevel(name);
+                  setImportReport(null);
+                  syncLevelLibrary(api);
+                }}
+              >
+                New
+              </button>
+              <button
+                type="button"
+                className="mini"
+                onClick={() => {
+                  const api = gameApiRef.current;
+                  if (!api) return;
+                  const current = levels.find(l => l.id === currentLevelId);
+                  const name = window.prompt('Save level as', current ? `${current.name} copy` : 'Untitled level');
+                  if (name === null) return;
+                  api.saveLevelAs(name);
+                  syncLevelLibrary(api);
+                }}
+              >
+                Save As
+              </button>
+            </div>
+            <div className="block-settings-buttons">
+              <button
+                type="button"
+                className="mini"
+                disabled={!currentLevelId || packStatus !== null}
+                onClick={() => {
+                  const api = gameApiRef.current;
+                  if (!api || !currentLevelId) return;
+                  const current = levels.find(l => l.id === currentLevelId);
+                  const name = window.prompt('Rename level', current?.name ?? '');
+                  if (name === null) return;
+                  api.renameLevel(currentLevelId, name);
+                  syncLevelLibrary(api);
+                }}
+              >
+                Rename
+              </button>
+              <button
+                type="button"
+                className="mini"
+                disabled={!currentLevelId || packStatus !== null}
+                onClick={() => {
+                  const api = gameApiRef.current;
+                  if (!api || !currentLevelId) return;
+                  api.duplicateLevel(currentLevelId);
+                  syncLevelLibrary(api);
+                }}
+              >
+                Duplicate
+              </button>
+              <button
+                type="button"
+                className="mini"
+                disabled={!currentLevelId || packStatus !== null}
+                onClick={() => {
+                  const api = gameApiRef.current;
+                  if (!api || !currentLevelId) return;
+                  const current = levels.find(l => l.id === currentLevelId);
+                  if (!window.confirm(`Delete "${current?.name ?? 'level'}"?`)) return;
+                  api.deleteLevel(currentLevelId);
+                  setImportReport(null);
+                  syncLevelLibrary(api);
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+          <div className="sidebar-title">Level packs</div>
+          <div className="sidebar-section">
+            {packs.map(pack => (
+              <div key={pack.id} className="pack-row">
+                <button
+                  type="button"
+                  className={packStatus?.meta.id === pack.id ? 'active' : undefined}
+                  title={pack.description}
+                  onClick={() => {
+                    const api = gameApiRef.current;
+                    if (!api) return;
+                    if (!api.startPack(pack.id)) return;
+                    setEditorEnabled(api.setEditorEnabled(false));
+                    syncLevelLibrary(api);
+                  }}
+                >
+                  ▶ {pack.name}
+                </button>
+                <button
+                  type="button"
+                  className="mini"
+                  aria-label={`Delete ${pack.name}`}
+                  onClick={() => {
+                    const api = gameApiRef.current;
+                    if (!api) return;
+                    if (!window.confirm(`Delete pack "${pack.name}" and its progress?`)) return;
+                    api.deletePack(pack.id);
+                    syncLevelLibrary(api);
+                  }}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => {
+                packInputRef.current?.click();
+              }}
+            >
+              Import Pack
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                const api = gameApiRef.current;
+                if (!api) return;
+                const name = window.prompt('Pack name', 'My level pack');
+                if (name === null) return;
+                downloadTextFile('pack.json', api.exportPack(name));
+              }}
+            >
+              Export Library as Pack
+            </button>
+          </div>
           <div className="sidebar-title">Level</div>
           <div className="sidebar-section">
             <div className="level-size">
@@ -445,6 +1125,24 @@ function App() {
               >
                 Apply Size
               </button>
+              <label>
+                Theme
+                <select
+                  value={levelTheme ?? ''}
+                  onChange={(e) => {
+                    const api = gameApiRef.current;
+                    if (!api) return;
+                    setLevelTheme(api.setLevelTheme(e.target.value ? (e.target.value as ThemeId) : null));
+                  }}
+                >
+                  <option value="">Default</option>
+                  {THEME_IDS.map(id => (
+                    <option key={id} value={id}>
+                      {THEMES[id].name}
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
             <button
               type="button"
@@ -461,10 +1159,11 @@ function App() {
                 if (!api) return;
                 const json = window.prompt('Paste Level JSON');
                 if (!json) return;
-                api.importLevel(json);
+                showImportResult(api.importLevel(json));
                 const size = api.getLevelSize();
                 setLevelWidth(size.width);
                 setLevelHeight(size.height);
+                setLevelTheme(api.getLevelTheme());
               }}
             >
               Paste JSON
@@ -499,13 +1198,85 @@ function App() {
                 const api = gameApiRef.current;
                 if (!api) return;
                 api.clearLevel();
+                setLevels(api.listLevels());
                 const size = api.getLevelSize();
                 setLevelWidth(size.width);
                 setLevelHeight(size.height);
+                setLevelTheme(api.getLevelTheme());
               }}
             >
               Clear Level
             </button>
+            {importReport && (
+              <div className={importReport.ok ? 'level-issues' : 'level-issues failed'}>
+                <div className="level-issues-header">
+                  <span>{importReport.ok ? 'Imported with repairs' : 'Import failed'}</span>
+                  <button type="button" className="mini" onClick={() => setImportReport(null)}>
+                    ✕
+                  </button>
+                </div>
+                <ul>
+                  {importReport.issues.map((issue, i) => (
+                    <li key={i} className={issue.severity}>
+                      <code>{issue.path}</code> {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+          <div className="sidebar-title">Verify</div>
+          <div className="sidebar-section">
+            <div className="block-settings-label">Players</div>
+            <div className="block-settings-buttons">
+              {[1, 2, 3, 4].map(count => (
+                <button
+                  key={count}
+                  type="button"
+                  className={verifyPlayers === count ? 'active mini' : 'mini'}
+                  onClick={() => setVerifyPlayers(count)}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                const api = gameApiRef.current;
+                if (!api) return;
+                setVerifyReport(api.verifyLevel(verifyPlayers));
+              }}
+            >
+              Check solvability
+            </button>
+            {verifyReport && (
+              <div className={verifyReport.solvable ? 'level-issues verified' : 'level-issues failed'}>
+                <div className="level-issues-header">
+                  <span>
+                    {verifyReport.solvable ? 'Solvable' : 'Not solvable'} with {verifyReport.playerCount}{' '}
+                    {verifyReport.playerCount === 1 ? 'player' : 'players'}
+                  </span>
+                  <button type="button" className="mini" onClick={() => setVerifyReport(null)}>
+                    ✕
+                  </button>
+                </div>
+                <ul>
+                  {verifyReport.findings
+                    .filter(finding => !finding.ok)
+                    .map((finding, i) => (
+                      <li key={i} className="error">
+                        {finding.label}: {finding.reasons.join('; ')}
+                      </li>
+                    ))}
+                  {verifyReport.notes.map((note, i) => (
+                    <li key={`note-${i}`} className="warning">
+                      {note}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -518,6 +1289,7 @@ function App() {
               if (!api) return;
               const enabled = api.toggleEditor();
               setEditorEnabled(enabled);
+              setReplaying(api.isReplaying());
               if (enabled) {
                 setEditorTool(api.getEditorTool());
                 setBlockRequired(api.getBlockRequired());
@@ -525,15 +1297,297 @@ function App() {
                 setBridgeDistance(api.getBridgeDistance());
                 setBridgePermanent(api.getBridgePermanent());
                 setBridgeRequiredPlayers(api.getBridgeRequiredPlayers());
+                setLevels(api.listLevels());
+                setCurrentLevelId(api.getCurrentLevelId());
                 const size = api.getLevelSize();
                 setLevelWidth(size.width);
                 setLevelHeight(size.height);
+                setLevelTheme(api.getLevelTheme());
               }
             }}
           >
             Editor: {editorEnabled ? 'On' : 'Off'}
           </button>
+          {packStatus && (
+            <>
+              <button
+                type="button"
+                onClick={() => {
+                  const api = gameApiRef.current;
+                  if (!api) return;
+                  api.restartPack();
+                  setPackStatus(api.getPackStatus());
+                }}
+              >
+                Restart pack
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  const api = gameApiRef.current;
+                  if (!api) return;
+                  api.exitPack();
+                  syncLevelLibrary(api);
+                }}
+              >
+                Exit {packStatus.meta.name}
+              </button>
+            </>
+          )}
+          {replaying ? (
+            <button
+              type="button"
+              onClick={() => {
+                const api = gameApiRef.current;
+                if (!api) return;
+                api.stopReplay();
+                syncLevelLibrary(api);
+              }}
+            >
+              Stop replay
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                title="Download the inputs of the current run since the level started"
+                onClick={() => {
+                  const api = gameApiRef.current;
+                  if (!api) return;
+                  const json = api.exportReplay();
+                  if (!json) {
+                    window.alert('Nothing to save: the level was edited since this run started.');
+                    return;
+                  }
+                  downloadTextFile('replay.json', json);
+                }}
+              >
+                Save replay
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  replayInputRef.current?.click();
+                }}
+              >
+                Play replay
+              </button>
+            </>
+          )}
+          <label className="checkbox-row" title="Show the fastest completed run of this level">
+            <input
+              type="checkbox"
+              checked={ghostVisible}
+              onChange={(e) => {
+                const api = gameApiRef.current;
+                if (!api) return;
+                setGhostVisible(api.setGhostVisible(e.target.checked));
+              }}
+            />
+            Ghost
+          </label>
+          <button
+            type="button"
+            className={controlsOpen ? 'active' : undefined}
+            onClick={() => {
+              const api = gameApiRef.current;
+              if (!api) return;
+              if (controlsOpen) {
+                api.cancelKeyRebind();
+                api.cancelGamepadRebind();
+              }
+              setGamepads(api.listGamepads());
+              setControlsOpen(!controlsOpen);
+            }}
+          >
+            Controls
+          </button>
         </div>
+        {controlsOpen && (
+          <div className="controls-panel">
+            <div className="controls-profile">
+              <div className="controls-profile-title">Player colours</div>
+              <select
+                value={paletteSettings.palette}
+                onChange={(e) => {
+                  const api = gameApiRef.current;
+                  if (!api) return;
+                  setPaletteSettings(api.setPalette(e.target.value as PaletteId));
+                }}
+              >
+                {PALETTE_IDS.map(id => (
+                  <option key={id} value={id}>
+                    {PALETTES[id].name}
+                  </option>
+                ))}
+              </select>
+              <div className="controls-swatches">
+                {PALETTES[paletteSettings.palette].colors.map((color, slot) => (
+                  <span key={slot} style={{ background: color }} title={`P${slot + 1}`} />
+                ))}
+              </div>
+              <label className="checkbox-row">
+                <input
+                  type="checkbox"
+                  checked={paletteSettings.glyphs}
+                  onChange={(e) => {
+                    const api = gameApiRef.current;
+                    if (!api) return;
+                    setPaletteSettings(api.setSlotGlyphs(e.target.checked));
+                  }}
+                />
+                Shape markers on players and blocks
+              </label>
+            </div>
+            <div className="controls-profile">
+              <div className="controls-profile-title">Sound</div>
+              <div className="controls-row">
+                <span>Master {Math.round(audioSettings.master * 100)}%</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={audioSettings.master}
+                  onChange={(e) => {
+                    const api = gameApiRef.current;
+                    if (!api) return;
+                    setAudioSettings(api.setMasterVolume(Number(e.target.value)));
+                  }}
+                />
+              </div>
+              <div className="controls-row">
+                <span>Effects {Math.round(audioSettings.sfx * 100)}%</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={audioSettings.sfx}
+                  onChange={(e) => {
+                    const api = gameApiRef.current;
+                    if (!api) return;
+                    setAudioSettings(api.setSfxVolume(Number(e.target.value)));
+                  }}
+                />
+              </div>
+              <label className="checkbox-row">
+                <input
+                  type="checkbox"
+                  checked={audioSettings.muted}
+                  onChange={(e) => {
+                    const api = gameApiRef.current;
+                    if (!api) return;
+                    setAudioSettings(api.setMuted(e.target.checked));
+                  }}
+                />
+                Mute
+              </label>
+            </div>
+            {keyboardProfiles.map((profile, index) => (
+              <div key={profile.name} className="controls-profile">
+                <div className="controls-profile-title">
+                  Keyboard {index + 1} ({profile.name})
+                </div>
+                {INPUT_ACTIONS.map(action => {
+                  const capturing = keyRebind?.profile === index && keyRebind.action === action;
+                  return (
+                    <div key={action} className="controls-row">
+                      <span>{ACTION_LABELS[action]}</span>
+                      <button
+                        type="button"
+                        className={capturing ? 'active' : undefined}
+                        onClick={(e) => {
+                          const api = gameApiRef.current;
+                          if (!api) return;
+                          // Keep Space/Enter from re-clicking the button once it is bound.
+                          e.currentTarget.blur();
+                          if (capturing) api.cancelKeyRebind();
+                          else api.startKeyRebind(index, action);
+                        }}
+                      >
+                        {capturing ? 'Press a key…' : profile.keys[action].map(keyLabel).join(' / ') || '—'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => {
+                const api = gameApiRef.current;
+                if (!api) return;
+                setKeyboardProfiles(api.resetKeyBindings());
+              }}
+            >
+              Reset keyboard
+            </button>
+            {gamepads.length === 0 && <div className="controls-note">Press a button on a controller to set it up.</div>}
+            {gamepads.map(pad => (
+              <div key={`${pad.index}:${pad.id}`} className="controls-profile">
+                <div className="controls-profile-title" title={pad.id}>
+                  Controller {pad.index + 1} ({pad.id.length > 32 ? `${pad.id.slice(0, 32)}…` : pad.id})
+                </div>
+                {(['axis', 'jump', 'menu', 'back', 'retry', 'dpadLeft', 'dpadRight'] as GamepadField[]).map(field => {
+                  const capturing = gamepadRebind?.index === pad.index && gamepadRebind.field === field;
+                  return (
+                    <div key={field} className="controls-row">
+                      <span>{GAMEPAD_FIELD_LABELS[field]}</span>
+                      <button
+                        type="button"
+                        className={capturing ? 'active' : undefined}
+                        onClick={() => {
+                          const api = gameApiRef.current;
+                          if (!api) return;
+                          if (capturing) api.cancelGamepadRebind();
+                          else api.startGamepadRebind(pad.index, field);
+                        }}
+                      >
+                        {capturing
+                          ? field === 'axis'
+                            ? 'Push the stick…'
+                            : `Press the button for ${GAMEPAD_FIELD_LABELS[field]}…`
+                          : gamepadFieldValue(pad.mapping, field)}
+                      </button>
+                    </div>
+                  );
+                })}
+                <div className="controls-row">
+                  <span>Deadzone {pad.mapping.deadzone.toFixed(2)}</span>
+                  <input
+                    type="range"
+                    min={MIN_DEADZONE}
+                    max={MAX_DEADZONE}
+                    step={0.05}
+                    value={pad.mapping.deadzone}
+                    onChange={(e) => {
+                      gameApiRef.current?.updateGamepadMapping(pad.id, { deadzone: Number(e.target.value) });
+                    }}
+                  />
+                </div>
+                <label className="checkbox-row">
+                  <input
+                    type="checkbox"
+                    checked={pad.mapping.dpad}
+                    onChange={(e) => {
+                      gameApiRef.current?.updateGamepadMapping(pad.id, { dpad: e.target.checked });
+                    }}
+                  />
+                  D-pad moves
+                </label>
+                <button
+                  type="button"
+                  onClick={() => {
+                    gameApiRef.current?.resetGamepadMapping(pad.id);
+                  }}
+                >
+                  Reset controller
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
       <input
         ref={importInputRef}
         type="file"
@@ -545,20 +1599,66 @@ function App() {
           e.target.value = '';
           if (!api || !file) return;
           const json = await file.text();
-          api.importLevel(json);
+          showImportResult(api.importLevel(json));
           const size = api.getLevelSize();
           setLevelWidth(size.width);
           setLevelHeight(size.height);
+          setLevelTheme(api.getLevelTheme());
+        }}
+      />
+      <input
+        ref={packInputRef}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: 'none' }}
+        onChange={async (e) => {
+          const api = gameApiRef.current;
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (!api || !file) return;
+          const json = await file.text();
+          const result = api.importPack(json);
+          setImportReport(
+            result.issues.length > 0 || !result.pack ? { ok: Boolean(result.pack), issues: result.issues } : null
+          );
+          syncLevelLibrary(api);
+        }}
+      />
+      <input
+        ref={replayInputRef}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: 'none' }}
+        onChange={async (e) => {
+          const api = gameApiRef.current;
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (!api || !file) return;
+          const json = await file.text();
+          const result = api.playReplay(json);
+          if (!result.replay) {
+            const first = result.issues.find(issue => issue.severity === 'error');
+            window.alert(`Replay could not be loaded${first ? `: ${first.path} ${first.message}` : ''}`);
+            return;
+          }
+          setEditorEnabled(api.getEditorEnabled());
+          setReplaying(true);
         }}
       />
         <canvas ref={canvasRef} />
         <div className="instructions">
           {editorEnabled ? (
-            `EDITOR: Tool=${editorTool}. Drag to place (spawn: click, button: click then click bridge). Right-click to delete. Middle-drag to pan. Scroll to pan. Alt+scroll pans sideways. Shift+scroll zooms. Pan with WASD.`
+            `EDITOR: Tool=${editorTool}. Drag to place (spawn: click, button: click then click bridge). Select: drag to move, drag handles to resize, arrows nudge (Shift: 5 cells). Right-click to delete. Middle-drag to pan. Scroll to pan. Alt+scroll pans sideways. Shift+scroll zooms. Pan with WASD.`
           ) : (
             <>
-              <span>Keyboard: Join with Arrow keys/Space, Move: ←/→, Jump: Space, Leave: Backspace, Pause: Esc</span>
-              <br />
+              {keyboardProfiles.map((profile, index) => (
+                <span key={profile.name}>
+                  Keyboard {index + 1}: Join by moving or jumping, Move: {keyLabel(profile.keys.left[0] ?? '')}/
+                  {keyLabel(profile.keys.right[0] ?? '')}, Jump: {profile.keys.jump.map(keyLabel).join('/')}, Leave: hold{' '}
+                  {profile.keys.leave.map(keyLabel).join('/')}, Pause: {profile.keys.pause.map(keyLabel).join('/')}
+                  <br />
+                </span>
+              ))}
               <span>
                 Controllers (Xbox/PS): Join: press any button, Leave: hold Back, Move with Left Stick, Jump: <img src={AIcon} alt="A" style={{ height: 18, verticalAlign: 'middle' }} /> / <img src={CrossIcon} alt="Cross" style={{ height: 18, verticalAlign: 'middle' }} />, Pause: Menu
               </span>
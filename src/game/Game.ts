@@ -3,39 +3,172 @@ import { drawButton } from './render/button';
 import { drawKey } from './render/key';
 import { drawDoor } from './render/door';
 import { drawBlock } from './render/block';
-import { drawBridge } from './render/bridge';
+import { drawBridge, drawBridgePath } from './render/bridge';
 import { drawSpike } from './render/spike';
 import { drawPlatform } from './render/platform';
 import { drawSpawn } from './render/spawn';
-import { updateBlocks as sysUpdateBlocks, initBlockCarrying } from './systems/blocks';
-import { updateButtons as sysUpdateButtons } from './systems/buttons';
-import { updateBridges as sysUpdateBridges } from './systems/bridges';
-import { updateDoor as sysUpdateDoor } from './systems/door';
-import { updateKey as sysUpdateKey } from './systems/key';
-import { updateSpikes as sysUpdateSpikes } from './systems/spikes';
-import { initPlayerCarrying } from './systems/playerCarrying';
+import { drawSelection } from './render/selection';
+import { createBridgePathState } from './systems/bridges';
+import { isSpikeRetracted } from './systems/spikes';
 import { addPlatform as addPlatformEnt } from './entities/platform';
-import { addBlock as addBlockEnt } from './entities/block';
+import { addBlock as addBlockEnt, DEFAULT_BLOCK_REQUIRED } from './entities/block';
 import { addBridge as addBridgeEnt } from './entities/bridge';
 import { addSpike as addSpikeEnt } from './entities/spike';
-import { setSpawnPoint as setSpawnPointEnt, ensureSpawn as ensureSpawnEnt, getSpawnForSlot as getSpawnForSlotEnt } from './entities/spawn';
-import { setKeyPoint as setKeyPointEnt, ensureKey as ensureKeyEnt } from './entities/key';
-import { setDoor as setDoorEnt, ensureDoor as ensureDoorEnt } from './entities/door';
+import { GATE_KINDS } from './entities/gate';
+import { drawGate } from './render/gate';
+import { drawCheckpoint } from './render/checkpoint';
+import { addCheckpoint as addCheckpointEnt } from './entities/checkpoint';
+import { setSpawnPoint as setSpawnPointEnt } from './entities/spawn';
+import {
+  addPluginEntity,
+  defaultPluginSettings,
+  getEntityPlugin,
+  listEntityPlugins,
+  normalizePluginSetting,
+  registerEntityPlugin,
+  type EntityPlugin,
+  type PluginSetting,
+  type PluginSettingValues
+} from './entities/plugin';
+import type { Player } from './Player';
 import { handleButtonClick as handleButtonClickEditor } from './editor/buttons';
+import { handleGateClick as handleGateClickEditor } from './editor/gates';
+import { addWaypoint, getWaypointRects, hitWaypoint, waypointOffsetAt } from './editor/waypoints';
 import { eraseAtPoint as eraseAtPointEditor } from './editor/erase';
-import { Player } from './Player';
-
-const { Engine, Bodies, Composite } = Matter;
-
-let engine: Matter.Engine;
-let playerSlots: Array<Player | null> = [null, null, null, null];
+import {
+  applySelectionRect as applySelectionRectEditor,
+  getHandlePoints,
+  getSelectionRect,
+  hitSelectionHandle,
+  isResizable,
+  pickSelection,
+  resizeRect,
+  type EditorSelection,
+  type SelectableWorld,
+  type SelectionHandle
+} from './editor/select';
+import { parseLevelJson, type LevelParseResult } from './level/parse';
+import {
+  createLibraryLevel,
+  deleteLibraryLevel,
+  getLastOpenedLevelId,
+  getLibraryEntry,
+  listLibraryLevels,
+  readLibraryLevel,
+  renameLibraryLevel,
+  setLastOpenedLevelId,
+  writeLibraryLevel,
+  type LevelLibraryEntry
+} from './level/library';
+import {
+  buildLevelPack,
+  createPackId,
+  listStoredPacks,
+  parseLevelPackJson,
+  readPackProgress,
+  readStoredPack,
+  removeStoredPack,
+  storePack,
+  writePackProgress,
+  type LevelPack,
+  type LevelPackMeta,
+  type LevelPackParseResult
+} from './level/pack';
+import { parseReplayJson, type Replay, type ReplayParseResult } from './level/replay';
+import {
+  ghostFrameAt,
+  hashLevel,
+  libraryGhostKey,
+  packGhostKey,
+  readGhost,
+  readGhostVisible,
+  removeGhost,
+  removeGhosts,
+  writeGhost,
+  writeGhostVisible,
+  type GhostRun
+} from './level/ghost';
+import { drawGhost } from './render/ghost';
+import {
+  createDefaultKeyboardProfiles,
+  findKeyboardAction,
+  keyLabel,
+  readKeyboardProfiles,
+  setKeyBinding,
+  writeKeyboardProfiles,
+  type InputAction,
+  type KeyboardProfile
+} from './input/bindings';
+import {
+  assignGamepadInput,
+  captureGamepadBaseline,
+  createDefaultGamepadMapping,
+  detectGamepadInput,
+  isButtonPressed,
+  MAX_DEADZONE,
+  MIN_DEADZONE,
+  readGamepadAxisX,
+  readGamepadMappings,
+  writeGamepadMappings,
+  type GamepadBaseline,
+  type GamepadField,
+  type GamepadMapping
+} from './input/gamepad';
+import {
+  createTouchSide,
+  readTouchPad,
+  TOUCH_SIDES,
+  touchEnd,
+  touchLayout,
+  touchMove,
+  touchStart,
+  type TouchSide
+} from './input/touch';
+import { drawTouchControls } from './render/touch';
+import { followViews, planViews, type CameraView } from './render/camera';
+import { drawOffscreenIndicators, drawPlayerHud, type PlayerHudEntry } from './render/indicators';
+import {
+  drawSlotGlyph,
+  PALETTES,
+  readPaletteSettings,
+  writePaletteSettings,
+  type PaletteId,
+  type PaletteSettings
+} from './render/palette';
+import { drawResults, drawRunTimer, type ResultsView } from './render/results';
+import { resolveTheme, THEME_IDS, type Theme, type ThemeId } from './render/theme';
+import {
+  applyAudioSettings,
+  createSfxEngine,
+  EVENT_CUES,
+  playCue,
+  readAudioSettings,
+  writeAudioSettings,
+  type AudioSettings,
+  type SfxEngine
+} from './audio/sfx';
+import { readBestTime, removeBestTime, removeBestTimes, writeBestTime } from './level/records';
+import { verifyLevel as verifyLevelState, type VerifyReport } from './level/verify';
+import { FIXED_STEP_MS, GRID_SIZE, Simulation, snap, type InputFrame } from './Simulation';
+import { createEventBus, type EventBus, type GameEventListener, type GameEventType } from './events';
+
+const { Composite } = Matter;
+
+let sim: Simulation;
+// Outlives level changes; each new simulation emits into it.
+let gameEvents: EventBus = createEventBus();
 let canvas: HTMLCanvasElement;
 let ctx: CanvasRenderingContext2D;
 
-const PLAYER_COLORS = ['#ff4d4d', '#4dff4d', '#4d4dff', '#ffff4d'];
-const LEVEL_STORAGE_KEY = 'pico_level_v1';
-const GRID_SIZE = 20;
 const LEAVE_HOLD_FRAMES = 90;
+// Keeps a jump held through the finish from skipping the results screen.
+const RESULTS_INPUT_DELAY_FRAMES = 45;
+const LINK_COLORS: Record<LinkTarget['kind'], string> = {
+  bridge: '#ffffff',
+  spike: '#ff8a80',
+  door: '#ffd54f',
+  gate: '#a7ffeb'
+};
 
 export type LevelRect = {
   x: number;
@@ -44,13 +177,21 @@ export type LevelRect = {
   h: number;
 };
 
-type LevelConfig = {
+export type LevelConfig = {
   width: number;
   height: number;
 };
 
 const CAMERA_SIZE: LevelConfig = { width: 960, height: 540 };
 
+// Waypoints are offsets from the bridge's home position. A bridge with a path
+// follows it instead of sliding along dx/dy.
+export type BridgePath = {
+  waypoints: Array<{ x: number; y: number }>;
+  speed: number;
+  mode: 'loop' | 'pingpong';
+  trigger: 'always' | 'button';
+};
 export type BridgeDef = LevelRect & {
   id: number;
   dx: number;
@@ -58,22 +199,87 @@ export type BridgeDef = LevelRect & {
   distance: number;
   permanent: boolean;
   requiredPlayers?: number;
+  path?: BridgePath;
 };
-export type ButtonDef = LevelRect & { id: number; targetBridgeId: number | null };
-
-type LevelState = {
+export type LinkTarget = { kind: 'bridge' | 'spike' | 'gate'; id: number } | { kind: 'door' };
+export type ButtonDef = LevelRect & { id: number; targets: LinkTarget[] };
+export type GateKind = 'and' | 'or' | 'not' | 'toggle' | 'delay';
+export type GateDef = LevelRect & { id: number; kind: GateKind; targets: LinkTarget[]; delayFrames?: number };
+export type SpikeDef = LevelRect & { id: number };
+export type CheckpointDef = { id: number; x: number; y: number };
+export type BlockDef = LevelRect & { required?: number; allowedPlayer?: number };
+
+export type LevelState = {
+  version: number;
   config: LevelConfig;
   platforms: LevelRect[];
   door: LevelRect | null;
   spawn: { x: number; y: number } | null;
   key: { x: number; y: number } | null;
-  blocks: Array<LevelRect & { required?: number; allowedPlayer?: number }>;
+  blocks: BlockDef[];
   bridges: BridgeDef[];
   buttons: ButtonDef[];
-  spikes: LevelRect[];
+  spikes: SpikeDef[];
+  gates: GateDef[];
+  checkpoints: CheckpointDef[];
+  theme?: ThemeId;
+  // Entities from entity type plugins, keyed by plugin type.
+  custom?: Record<string, unknown[]>;
+};
+
+export type PackStatus = {
+  meta: LevelPackMeta;
+  levelIndex: number;
+  levelCount: number;
+  completed: number[];
+  finished: boolean;
+};
+
+export type InspectorTarget =
+  | { kind: 'bridge'; def: BridgeDef }
+  | { kind: 'block'; def: BlockDef }
+  | { kind: 'button'; def: ButtonDef; available: LinkTarget[] }
+  | { kind: 'gate'; def: GateDef; available: LinkTarget[] };
+
+export type BridgePatch = Partial<Pick<BridgeDef, 'dx' | 'dy' | 'distance' | 'permanent' | 'requiredPlayers'>> & {
+  path?: BridgePath | null;
+};
+export type BlockPatch = { required?: number; allowedPlayer?: number | null };
+export type ButtonPatch = { targets?: LinkTarget[] };
+export type GatePatch = { kind?: GateKind; delayFrames?: number; targets?: LinkTarget[] };
+
+export type EditorTool =
+  | 'select'
+  | 'platform'
+  | 'door'
+  | 'spawn'
+  | 'key'
+  | 'block'
+  | 'bridge'
+  | 'button'
+  | 'gate'
+  | 'spike'
+  | 'checkpoint'
+  | `plugin:${string}`
+  | 'erase';
+
+export type GameOptions = {
+  // Entity type plugins, registered before the first level loads.
+  plugins?: EntityPlugin[];
+};
+
+export type PluginToolInfo = {
+  type: string;
+  name: string;
+  settings: PluginSetting[];
+  values: PluginSettingValues;
 };
 
-export type EditorTool = 'platform' | 'door' | 'spawn' | 'key' | 'block' | 'bridge' | 'button' | 'spike' | 'erase';
+type SlotDevice =
+  | { kind: 'gamepad'; index: number; id: string }
+  | { kind: 'keyboard'; profile: number }
+  | { kind: 'touch'; side: number };
+type KeyboardState = { left: boolean; right: boolean; jump: boolean; leave: boolean };
 
 export type GameApi = {
   toggleEditor: () => boolean;
@@ -89,6 +295,8 @@ export type GameApi = {
   getBlockAllowedPlayer: () => number;
   setLevelSize: (width: number, height: number) => LevelConfig;
   getLevelSize: () => LevelConfig;
+  setLevelTheme: (theme: ThemeId | null) => ThemeId | null;
+  getLevelTheme: () => ThemeId | null;
   setBridgeMove: (dx: number, dy: number) => { dx: number; dy: number };
   getBridgeMove: () => { dx: number; dy: number };
   setBridgeDistance: (distance: number) => number;
@@ -97,175 +305,229 @@ export type GameApi = {
   getBridgePermanent: () => boolean;
   setBridgeRequiredPlayers: (required: number) => number;
   getBridgeRequiredPlayers: () => number;
+  setGateKind: (kind: GateKind) => GateKind;
+  getGateKind: () => GateKind;
+  listEntityPlugins: () => PluginToolInfo[];
+  setPluginSetting: (type: string, key: string, value: number | boolean | string) => PluginSettingValues | null;
+  getInspectorTarget: () => InspectorTarget | null;
+  onSelectionChange: (listener: () => void) => () => void;
+  getKeyboardProfiles: () => KeyboardProfile[];
+  startKeyRebind: (profile: number, action: InputAction) => void;
+  cancelKeyRebind: () => void;
+  getKeyRebind: () => { profile: number; action: InputAction } | null;
+  resetKeyBindings: () => KeyboardProfile[];
+  listGamepads: () => Array<{ index: number; id: string; mapping: GamepadMapping }>;
+  startGamepadRebind: (index: number, field: GamepadField) => void;
+  cancelGamepadRebind: () => void;
+  getGamepadRebind: () => { index: number; field: GamepadField } | null;
+  updateGamepadMapping: (id: string, patch: Partial<Pick<GamepadMapping, 'deadzone' | 'dpad'>>) => GamepadMapping;
+  resetGamepadMapping: (id: string) => GamepadMapping;
+  onBindingsChange: (listener: () => void) => () => void;
+  setPalette: (palette: PaletteId) => PaletteSettings;
+  setSlotGlyphs: (enabled: boolean) => PaletteSettings;
+  getPaletteSettings: () => PaletteSettings;
+  setMasterVolume: (volume: number) => AudioSettings;
+  setSfxVolume: (volume: number) => AudioSettings;
+  setMuted: (muted: boolean) => AudioSettings;
+  getAudioSettings: () => AudioSettings;
+  on: <K extends GameEventType>(type: K, listener: GameEventListener<K>) => () => void;
+  // Pass commit = false while a field is being typed in, then commitSelectionEdit
+  // once it loses focus, so the whole edit becomes a single undo step.
+  updateSelectedBridge: (patch: BridgePatch, commit?: boolean) => BridgeDef | null;
+  updateSelectedBlock: (patch: BlockPatch) => BlockDef | null;
+  updateSelectedButton: (patch: ButtonPatch) => ButtonDef | null;
+  updateSelectedGate: (patch: GatePatch, commit?: boolean) => GateDef | null;
+  commitSelectionEdit: () => void;
   undo: () => boolean;
   redo: () => boolean;
   exportLevel: () => string;
-  importLevel: (json: string) => void;
+  importLevel: (json: string) => LevelParseResult;
+  verifyLevel: (playerCount: number) => VerifyReport;
   saveLevel: () => void;
   loadLevel: () => void;
   clearLevel: () => void;
+  listLevels: () => LevelLibraryEntry[];
+  getCurrentLevelId: () => string | null;
+  openLevel: (id: string) => boolean;
+  createLevel: (name: string) => LevelLibraryEntry;
+  saveLevelAs: (name: string) => LevelLibraryEntry;
+  renameLevel: (id: string, name: string) => LevelLibraryEntry | null;
+  duplicateLevel: (id: string) => LevelLibraryEntry | null;
+  deleteLevel: (id: string) => boolean;
+  listPacks: () => LevelPackMeta[];
+  importPack: (json: string) => LevelPackParseResult;
+  exportPack: (name: string) => string;
+  startPack: (id: string) => boolean;
+  restartPack: () => boolean;
+  exitPack: () => void;
+  deletePack: (id: string) => void;
+  getPackStatus: () => PackStatus | null;
+  exportReplay: () => string | null;
+  playReplay: (json: string) => ReplayParseResult;
+  stopReplay: () => void;
+  isReplaying: () => boolean;
+  setGhostVisible: (visible: boolean) => boolean;
+  getGhostVisible: () => boolean;
+  hasGhost: () => boolean;
 };
 
 let editorEnabled = false;
 let editorTool: EditorTool = 'platform';
-let levelRects: LevelRect[] = [];
-let platformBodies: Matter.Body[] = [];
-let doorRect: LevelRect | null = null;
-let doorBody: Matter.Body | null = null;
-let spawnPoint: { x: number; y: number } | null = null;
-let keyPoint: { x: number; y: number } | null = null;
-let keyBody: Matter.Body | null = null;
-let keyCarrierSlot: number | null = null;
-let doorUnlocked = false;
-let levelConfig: LevelConfig = { width: 0, height: 0 };
-let boundaryBodies: Matter.Body[] = [];
 let camera = { x: 0, y: 0 };
+// Play-mode viewports; the editor always uses the single `camera`.
+let playViews: CameraView[] = [];
 let editorZoom = 1;
-let blockDefs: Array<LevelRect & { required?: number; allowedPlayer?: number }> = [];
-let blockBodies: Matter.Body[] = [];
-let blockPusherCounts: number[] = [];
-let blockRequired = 2;
+let blockRequired = DEFAULT_BLOCK_REQUIRED;
 let blockRuleMode: 'required' | 'allowed' = 'required';
 let blockAllowedPlayer = 0;
-let bridgeDefs: BridgeDef[] = [];
-let bridgeBodies: Matter.Body[] = [];
-let bridgeActivated: boolean[] = [];
-let bridgeLatched: boolean[] = [];
-let bridgeHomeCenters: Array<{ x: number; y: number }> = [];
-let bridgeCarryX: number[] = [];
-let buttonDefs: ButtonDef[] = [];
-let buttonBodies: Matter.Body[] = [];
-let buttonPressed: boolean[] = [];
 let buttonLinkingId: number | null = null;
-let nextEntityId = 1;
+let gateKind: GateKind = 'and';
+let gateLinkingId: number | null = null;
 let bridgeMove = { dx: 1, dy: 0 };
 let bridgeDistance = 200;
 let bridgePermanent = false;
 let bridgeRequiredPlayers = 0;
-let spikeRects: LevelRect[] = [];
-let spikeBodies: Matter.Body[] = [];
-let levelCompleted = false;
-let completionFrames = 0;
+// Sidebar values for each plugin tool, on top of the plugin's defaults.
+const pluginSettings = new Map<string, PluginSettingValues>();
 let dragStart: { x: number; y: number } | null = null;
 let dragCurrent: { x: number; y: number } | null = null;
 let panLast: { x: number; y: number } | null = null;
 let mouseDownButton: number | null = null;
+let selection: EditorSelection | null = null;
+const selectionListeners = new Set<() => void>();
+// An inspector field changed the selection without recording an undo step yet.
+let selectionEditPending = false;
+let selectionDrag: {
+  handle: SelectionHandle | null;
+  waypoint: number | null;
+  start: { x: number; y: number };
+  origin: LevelRect;
+  changed: boolean;
+} | null = null;
 const editorPanKeys = new Set<string>();
 let undoStack: string[] = [];
 let redoStack: string[] = [];
+let currentLevelId: string | null = null;
+const levelHistories = new Map<string, { undo: string[]; redo: string[] }>();
+let activePack: LevelPack | null = null;
+let packLevelIndex = 0;
+let packFinished = false;
+let runResult: { frames: number; bestFrames: number | null; newRecord: boolean } | null = null;
+let resultsDismissed = false;
 let suppressHistory = false;
+// Storage key for the current run's best time and ghost, if it has one.
+let runKey: string | null = null;
+let bestGhost: GhostRun | null = null;
+let ghostVisible = true;
+let paletteSettings: PaletteSettings = { palette: 'default', glyphs: false };
+let audioSettings: AudioSettings = { master: 0.8, sfx: 0.8, muted: false };
+let sfxEngine: SfxEngine | null = null;
 let paused = false;
 const lastMenuPressed: boolean[] = [false, false, false, false];
 const lastBackPressed: boolean[] = [false, false, false, false];
+const lastContinuePressed: boolean[] = [false, false, false, false];
+const lastRetryPressed: boolean[] = [false, false, false, false];
 const backHoldFrames: number[] = [0, 0, 0, 0];
-let keyboardPlayerSlot: number | null = null;
-const keyboardState = { left: false, right: false, jump: false };
-let keyboardLeavePressed = false;
-
-function addPlayer(gp: Gamepad) {
-  if (playerSlots.some(p => p?.gamepadIndex === gp.index || (p && p.gamepadId === gp.id))) return;
-  const firstEmptySlot = playerSlots.findIndex(p => p === null);
-  const slot = firstEmptySlot;
-  if (slot === -1 || slot === undefined || slot < 0 || slot > 3) return;
-  if (playerSlots[slot]) return;
-  const spawn = getSpawnForSlotEnt(slot, spawnPoint, canvas, snap);
-  const newPlayer = new Player(gp.index, gp.id, spawn.x, spawn.y, PLAYER_COLORS[slot]);
-  playerSlots[slot] = newPlayer;
-  Composite.add(engine.world, newPlayer.body);
-}
-
-function setDoorRectLocal(rect: LevelRect) {
-  doorRect = rect;
-  doorBody = setDoorEnt(rect, engine);
-}
-
-export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => void; api: GameApi } {
+// Which controller drives each player slot; the simulation only sees their input.
+const slotDevices: Array<SlotDevice | null> = [null, null, null, null];
+let keyboardProfiles: KeyboardProfile[] = createDefaultKeyboardProfiles();
+let keyboardStates: KeyboardState[] = [];
+// The next key pressed is bound to this action instead of being played.
+let keyRebind: { profile: number; action: InputAction } | null = null;
+let gamepadMappings = new Map<string, GamepadMapping>();
+// While set, the pad's input is captured for the field instead of being played.
+let gamepadRebind: { index: number; id: string; field: GamepadField; baseline: GamepadBaseline } | null = null;
+const bindingListeners = new Set<() => void>();
+let touchSides: TouchSide[] = [];
+// The on-screen controls only appear once the canvas has been touched.
+let touchControlsVisible = false;
+
+export function initGame(
+  canvasElement: HTMLCanvasElement,
+  options: GameOptions = {}
+): { destroy: () => void; api: GameApi } {
   canvas = canvasElement;
   ctx = canvas.getContext('2d')!;
 
   canvas.width = CAMERA_SIZE.width;
   canvas.height = CAMERA_SIZE.height;
-  levelConfig = { width: snap(CAMERA_SIZE.width), height: snap(CAMERA_SIZE.height) };
   camera = { x: 0, y: 0 };
   editorZoom = 1;
 
-  // Create engine
-  engine = Engine.create();
+  const unregisterPlugins = (options.plugins ?? []).map(plugin => registerEntityPlugin(plugin));
+  pluginSettings.clear();
 
-  rebuildBounds();
+  gameEvents = createEventBus();
+  sim = new Simulation({ width: snap(CAMERA_SIZE.width), height: snap(CAMERA_SIZE.height) }, gameEvents);
+  slotDevices.fill(null);
+  clampCamera();
 
-  suppressHistory = true;
-  loadLevelFromStorage();
-  const setDoorRectLocal = (rect: LevelRect) => {
-    doorRect = rect;
-    doorBody = setDoorEnt(rect, engine);
-  };
-  ensureDoorEnt(doorBody, levelConfig, snap, setDoorRectLocal);
-  spawnPoint = ensureSpawnEnt(spawnPoint, levelConfig, snap);
-  keyBody = ensureKeyEnt(engine, keyPoint, keyBody);
-  suppressHistory = false;
+  currentLevelId = null;
+  levelHistories.clear();
+  activePack = null;
+  ghostVisible = readGhostVisible();
+  paletteSettings = readPaletteSettings();
+  audioSettings = readAudioSettings();
+  keyboardProfiles = readKeyboardProfiles();
+  keyboardStates = keyboardProfiles.map(() => ({ left: false, right: false, jump: false, leave: false }));
+  keyRebind = null;
+  gamepadMappings = readGamepadMappings();
+  gamepadRebind = null;
+  touchSides = Array.from({ length: TOUCH_SIDES }, createTouchSide);
+  touchControlsVisible = false;
   undoStack = [];
   redoStack = [];
-  pushHistorySnapshot();
+  selectionEditPending = false;
+  openLevelById(getLastOpenedLevelId() ?? createLibraryLevel('Level 1', null).id);
 
   // Handle Gamepad connection
   const handleGamepadConnected = (e: GamepadEvent) => {
-    addPlayer(e.gamepad);
+    const gp = e.gamepad;
+    if (slotDevices.some(d => d?.kind === 'gamepad' && d.index === gp.index)) return;
+    if (claimSlot({ kind: 'gamepad', index: gp.index, id: gp.id }) !== null) {
+      console.log(`Player ${gp.index} connected!`);
+    }
+    notifyBindingListeners();
   };
 
   const handleGamepadDisconnected = (e: GamepadEvent) => {
     console.log(`Player ${e.gamepad.index} disconnected!`);
-    let slot = playerSlots.findIndex(p => p?.gamepadIndex === e.gamepad.index);
+    let slot = slotDevices.findIndex(d => d?.kind === 'gamepad' && d.index === e.gamepad.index);
     if (slot === -1) {
-      slot = playerSlots.findIndex(p => p?.gamepadId === e.gamepad.id);
+      slot = slotDevices.findIndex(d => d?.kind === 'gamepad' && d.id === e.gamepad.id);
     }
+    if (gamepadRebind?.index === e.gamepad.index) gamepadRebind = null;
+    notifyBindingListeners();
     if (slot === -1) return;
+    releaseSlot(slot);
+  };
 
-    const existing = playerSlots[slot];
-    if (!existing) return;
+  const addKeyboardPlayer = (profile: number) => {
+    if (slotDevices.some(d => d?.kind === 'keyboard' && d.profile === profile)) return;
+    claimSlot({ kind: 'keyboard', profile });
+  };
 
-    Composite.remove(engine.world, existing.body);
-    playerSlots[slot] = null;
+  const handlePointerDown = (e: PointerEvent) => {
+    if (e.pointerType !== 'touch' || editorEnabled) return;
+    e.preventDefault();
+    touchControlsVisible = true;
+    const p = toCanvasPointRaw(e);
+    const layout = touchLayout(canvas.width, canvas.height);
+    const hit = touchStart(touchSides, layout, canvas.width, e.pointerId, p.x, p.y);
+    if (!hit || hit.leave) return;
+    if (slotDevices.some(d => d?.kind === 'touch' && d.side === hit.side)) return;
+    claimSlot({ kind: 'touch', side: hit.side });
   };
 
-  const addPlayer = (gp: Gamepad) => {
-    if (playerSlots.some(p => p?.gamepadIndex === gp.index)) return;
-
-    const firstEmptySlot = playerSlots.findIndex(p => p === null);
-    const slot = firstEmptySlot;
-    if (slot === -1 || slot === undefined || slot < 0 || slot > 3) return;
-    if (playerSlots[slot]) return;
-
-    console.log(`Player ${gp.index} connected!`);
-    const spawn = getSpawnForSlotEnt(slot, spawnPoint, canvas, snap);
-    const newPlayer = new Player(
-      gp.index,
-      gp.id,
-      spawn.x,
-      spawn.y,
-      PLAYER_COLORS[slot]
-    );
-    playerSlots[slot] = newPlayer;
-    Composite.add(engine.world, newPlayer.body);
+  const handlePointerMove = (e: PointerEvent) => {
+    if (e.pointerType !== 'touch') return;
+    const p = toCanvasPointRaw(e);
+    touchMove(touchSides, e.pointerId, p.x, p.y);
   };
 
-  const addKeyboardPlayer = () => {
-    if (keyboardPlayerSlot !== null) return;
-    const firstEmptySlot = playerSlots.findIndex(p => p === null);
-    const slot = firstEmptySlot;
-    if (slot === -1 || slot === undefined || slot < 0 || slot > 3) return;
-    if (playerSlots[slot]) return;
-    const spawn = getSpawnForSlotEnt(slot, spawnPoint, canvas, snap);
-    const newPlayer = new Player(
-      -1,
-      'keyboard',
-      spawn.x,
-      spawn.y,
-      PLAYER_COLORS[slot]
-    );
-    playerSlots[slot] = newPlayer;
-    keyboardPlayerSlot = slot;
-    Composite.add(engine.world, newPlayer.body);
+  const handlePointerUp = (e: PointerEvent) => {
+    if (e.pointerType !== 'touch') return;
+    touchEnd(touchSides, e.pointerId);
   };
 
   window.addEventListener("gamepadconnected", handleGamepadConnected);
@@ -274,7 +536,9 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
   // Initial check for already connected gamepads
   const initialGamepads = navigator.getGamepads();
   for (const gp of initialGamepads) {
-    if (gp) addPlayer(gp);
+    if (gp && !slotDevices.some(d => d?.kind === 'gamepad' && d.index === gp.index)) {
+      claimSlot({ kind: 'gamepad', index: gp.index, id: gp.id });
+    }
   }
 
   const handleMouseDown = (e: MouseEvent) => {
@@ -286,67 +550,78 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
     }
     if (e.button !== 0) return;
     const p = toCanvasPoint(e);
+    if (editorTool === 'select') {
+      const world = selectableWorld();
+      const raw = toWorldPoint(e);
+      const selectedBridge = selection?.kind === 'bridge' ? sim.entities.get('bridge', selection.id) : undefined;
+      if (selection && selectedBridge) {
+        // Alt+click drops a waypoint for the selected bridge; dragging one moves it.
+        if (e.altKey) {
+          addWaypoint(selectedBridge.def, raw, snap);
+          selectedBridge.state.path = createBridgePathState();
+          persistLevel();
+          for (const listener of selectionListeners) listener();
+          return;
+        }
+        const waypoint = hitWaypoint(selectedBridge.def, raw);
+        if (waypoint !== null) {
+          selectionDrag = { handle: null, waypoint, start: p, origin: selectedBridge.def, changed: false };
+          return;
+        }
+      }
+      const current = selection ? getSelectionRect(selection, world) : null;
+      const handle =
+        selection && current && isResizable(selection) ? hitSelectionHandle(current, raw, 8 / editorZoom) : null;
+      if (!handle) setSelection(pickSelection(raw, world));
+      const origin = selection ? getSelectionRect(selection, world) : null;
+      selectionDrag = selection && origin ? { handle, waypoint: null, start: p, origin, changed: false } : null;
+      return;
+    }
     if (editorTool === 'button') {
-      const res = handleButtonClickEditor(
+      const res = handleButtonClickEditor(p, selectableWorld(), snap, sim.nextEntityId, persistLevel, buttonLinkingId);
+      buttonLinkingId = res.buttonLinkingId;
+      sim.nextEntityId = res.nextEntityId;
+      return;
+    }
+    if (editorTool === 'gate') {
+      const res = handleGateClickEditor(
         p,
-        buttonBodies,
-        buttonDefs,
-        bridgeBodies,
-        bridgeDefs,
+        selectableWorld(),
+        gateKind,
         snap,
-        nextEntityId,
-        engine,
+        sim.nextEntityId,
         persistLevel,
-        buttonLinkingId
+        gateLinkingId
       );
-      buttonLinkingId = res.buttonLinkingId;
-      nextEntityId = res.nextEntityId;
+      gateLinkingId = res.gateLinkingId;
+      sim.nextEntityId = res.nextEntityId;
       return;
     }
     if (editorTool === 'erase') {
-      const res = eraseAtPointEditor(
-        p,
-        engine,
-        spawnPoint,
-        keyBody,
-        doorBody,
-        buttonBodies,
-        buttonDefs,
-        buttonPressed,
-        bridgeBodies,
-        bridgeDefs,
-        bridgeActivated,
-        bridgeLatched,
-        bridgeHomeCenters,
-        bridgeCarryX,
-        blockBodies,
-        blockDefs,
-        blockPusherCounts,
-        spikeBodies,
-        spikeRects,
-        platformBodies,
-        levelRects,
-        persistLevel,
-        buttonLinkingId
-      );
-      spawnPoint = res.spawnPoint;
-      keyBody = res.keyBody;
-      doorBody = res.doorBody;
-      doorRect = res.doorRect;
+      const res = eraseAtPointEditor(p, sim, persistLevel, buttonLinkingId, gateLinkingId);
       buttonLinkingId = res.buttonLinkingId;
+      gateLinkingId = res.gateLinkingId;
+      setSelection(null);
       return;
     }
     if (editorTool === 'spawn') {
-      spawnPoint = setSpawnPointEnt(p);
+      sim.spawnPoint = setSpawnPointEnt(p);
       persistLevel();
       return;
     }
+    if (editorTool === 'checkpoint') {
+      sim.nextEntityId = addCheckpointEnt(p, sim.nextEntityId, sim.entities, persistLevel);
+      return;
+    }
+    const pointPlugin = pluginForTool(editorTool);
+    if (pointPlugin?.placement === 'point') {
+      const size = pointPlugin.size ?? { w: GRID_SIZE, h: GRID_SIZE };
+      const rect = { x: p.x - size.w / 2, y: p.y - size.h / 2, w: size.w, h: size.h };
+      addPluginEntity(pointPlugin, rect, pluginSettingsFor(pointPlugin), sim.entities, persistLevel);
+      return;
+    }
     if (editorTool === 'key') {
-      const res = setKeyPointEnt(p, engine, keyBody, keyCarrierSlot, doorUnlocked);
-      keyPoint = res.keyPoint;
-      keyBody = res.keyBody;
-      keyCarrierSlot = res.keyCarrierSlot;
-      doorUnlocked = res.doorUnlocked;
+      sim.setKeyPoint(p);
       persistLevel();
       return;
     }
@@ -365,6 +640,30 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
       return;
     }
     if (mouseDownButton !== 0) return;
+    if (selectionDrag && selection) {
+      const p = toCanvasPoint(e);
+      const { handle, waypoint, start, origin } = selectionDrag;
+      const bridge = selection.kind === 'bridge' ? sim.entities.get('bridge', selection.id) : undefined;
+      const path = bridge?.def.path;
+      if (bridge && waypoint !== null && path?.waypoints[waypoint]) {
+        const next = waypointOffsetAt(bridge.def, toWorldPoint(e), snap);
+        const current = path.waypoints[waypoint];
+        if (current.x !== next.x || current.y !== next.y) {
+          path.waypoints[waypoint] = next;
+          selectionDrag.changed = true;
+        }
+        return;
+      }
+      const next = handle
+        ? resizeRect(origin, handle, p, GRID_SIZE)
+        : { ...origin, x: origin.x + p.x - start.x, y: origin.y + p.y - start.y };
+      const current = getSelectionRect(selection, selectableWorld());
+      if (current && (current.x !== next.x || current.y !== next.y || current.w !== next.w || current.h !== next.h)) {
+        applySelectionRectLocal(next);
+        selectionDrag.changed = true;
+      }
+      return;
+    }
     if (!dragStart) return;
     dragCurrent = toCanvasPoint(e);
   };
@@ -377,6 +676,16 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
       return;
     }
     mouseDownButton = null;
+    if (selectionDrag) {
+      // The whole drag becomes a single undo step.
+      const { changed, waypoint } = selectionDrag;
+      selectionDrag = null;
+      if (changed) persistLevel();
+      if (changed && waypoint !== null) {
+        for (const listener of selectionListeners) listener();
+      }
+      return;
+    }
     if (!dragStart || !dragCurrent) {
       dragStart = null;
       dragCurrent = null;
@@ -389,45 +698,39 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
 
     if (rect.w < GRID_SIZE || rect.h < GRID_SIZE) return;
     if (editorTool === 'door') {
-      if (doorBody) {
-        Composite.remove(engine.world, doorBody);
-        doorBody = null;
-      }
-      doorRect = rect;
-      doorBody = setDoorEnt(rect, engine);
+      sim.setDoorRect(rect);
       persistLevel();
       return;
     }
     if (editorTool === 'platform') {
-      addPlatformEnt(rect, platformBodies, levelRects, engine, persistLevel);
+      addPlatformEnt(rect, sim.entities, persistLevel);
       return;
     }
     if (editorTool === 'block') {
       const allowed = blockRuleMode === 'allowed' ? blockAllowedPlayer : null;
-      addBlockEnt(rect, blockRequired, allowed, blockDefs, blockBodies, blockPusherCounts, engine, persistLevel);
+      addBlockEnt(rect, blockRequired, allowed, sim.entities, persistLevel);
       return;
     }
     if (editorTool === 'bridge') {
-      nextEntityId = addBridgeEnt(
+      sim.nextEntityId = addBridgeEnt(
         rect,
         bridgeMove,
         bridgeDistance,
         bridgePermanent,
         bridgeRequiredPlayers,
-        nextEntityId,
-        bridgeDefs,
-        bridgeBodies,
-        bridgeActivated,
-        bridgeLatched,
-        bridgeHomeCenters,
-        bridgeCarryX,
-        engine,
+        sim.nextEntityId,
+        sim.entities,
         persistLevel
       );
       return;
     }
     if (editorTool === 'spike') {
-      addSpikeEnt(rect, spikeRects, spikeBodies, engine, persistLevel);
+      sim.nextEntityId = addSpikeEnt(rect, sim.nextEntityId, sim.entities, persistLevel);
+      return;
+    }
+    const plugin = pluginForTool(editorTool);
+    if (plugin) {
+      addPluginEntity(plugin, rect, pluginSettingsFor(plugin), sim.entities, persistLevel);
       return;
     }
   };
@@ -436,36 +739,10 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
     if (!editorEnabled) return;
     e.preventDefault();
     const p = toCanvasPoint(e);
-    const res = eraseAtPointEditor(
-      p,
-      engine,
-      spawnPoint,
-      keyBody,
-      doorBody,
-      buttonBodies,
-      buttonDefs,
-      buttonPressed,
-      bridgeBodies,
-      bridgeDefs,
-      bridgeActivated,
-      bridgeLatched,
-      bridgeHomeCenters,
-      bridgeCarryX,
-      blockBodies,
-      blockDefs,
-      blockPusherCounts,
-      spikeBodies,
-      spikeRects,
-      platformBodies,
-      levelRects,
-      persistLevel,
-      buttonLinkingId
-    );
-    spawnPoint = res.spawnPoint;
-    keyBody = res.keyBody;
-    doorBody = res.doorBody;
-    doorRect = res.doorRect;
+    const res = eraseAtPointEditor(p, sim, persistLevel, buttonLinkingId, gateLinkingId);
     buttonLinkingId = res.buttonLinkingId;
+    gateLinkingId = res.gateLinkingId;
+    setSelection(null);
   };
 
   const handleWheel = (e: WheelEvent) => {
@@ -502,47 +779,65 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
   };
 
   const performUndo = () => {
+    commitSelectionEdit();
     if (undoStack.length <= 1) return false;
     const current = undoStack.pop();
     if (!current) return false;
     redoStack.push(current);
     const prev = undoStack[undoStack.length - 1];
     if (!prev) return false;
+    const kept = selection;
     suppressHistory = true;
     loadLevelFromJson(prev);
     suppressHistory = false;
+    restoreSelection(kept);
     return true;
   };
 
   const performRedo = () => {
+    commitSelectionEdit();
     const next = redoStack.pop();
     if (!next) return false;
     undoStack.push(next);
+    const kept = selection;
     suppressHistory = true;
     loadLevelFromJson(next);
     suppressHistory = false;
+    restoreSelection(kept);
     return true;
   };
 
   const handleKeyDown = (e: KeyboardEvent) => {
-    if (e.key === 'Escape') {
+    if (keyRebind) {
+      e.preventDefault();
+      keyboardProfiles = setKeyBinding(keyboardProfiles, keyRebind.profile, keyRebind.action, e.code);
+      writeKeyboardProfiles(keyboardProfiles);
+      keyRebind = null;
+      notifyBindingListeners();
+      return;
+    }
+    const bound = findKeyboardAction(keyboardProfiles, e.code);
+    if (bound?.action === 'pause') {
       e.preventDefault();
       togglePause();
       return;
     }
     if (!editorEnabled) {
-      if (e.key === 'Backspace') {
-        keyboardLeavePressed = true;
+      if (resultsPromptsReady() && (e.key === 'Enter' || e.key === 'r' || e.key === 'R')) {
+        e.preventDefault();
+        if (e.key === 'Enter') continueAfterResults();
+        else retryLevel();
         return;
       }
-      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === ' ') {
-        e.preventDefault();
-        addKeyboardPlayer();
-        if (e.key === 'ArrowLeft') keyboardState.left = true;
-        if (e.key === 'ArrowRight') keyboardState.right = true;
-        if (e.key === ' ') keyboardState.jump = true;
+      if (!bound) return;
+      e.preventDefault();
+      const state = keyboardStates[bound.profile];
+      if (bound.action === 'leave') {
+        state.leave = true;
         return;
       }
+      addKeyboardPlayer(bound.profile);
+      state[bound.action] = true;
       return;
     }
     if (
@@ -569,19 +864,28 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
       return;
     }
 
+    if (editorTool === 'select' && selection && !selectionDrag && e.key.startsWith('Arrow')) {
+      e.preventDefault();
+      const step = e.shiftKey ? GRID_SIZE * 5 : GRID_SIZE;
+      const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+      const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0;
+      const current = getSelectionRect(selection, selectableWorld());
+      if (current && (dx !== 0 || dy !== 0)) {
+        applySelectionRectLocal({ ...current, x: current.x + dx, y: current.y + dy });
+        persistLevel();
+      }
+      return;
+    }
+
     if (e.key === 'a' || e.key === 'A' || e.key === 'd' || e.key === 'D' || e.key === 'w' || e.key === 'W' || e.key === 's' || e.key === 'S') {
       editorPanKeys.add(e.key);
     }
   };
 
   const handleKeyUp = (e: KeyboardEvent) => {
-    if (!editorEnabled) {
-      if (e.key === 'ArrowLeft') keyboardState.left = false;
-      if (e.key === 'ArrowRight') keyboardState.right = false;
-      if (e.key === ' ') keyboardState.jump = false;
-      if (e.key === 'Backspace') keyboardLeavePressed = false;
-      return;
-    }
+    const bound = findKeyboardAction(keyboardProfiles, e.code);
+    if (bound && bound.action !== 'pause') keyboardStates[bound.profile][bound.action] = false;
+    if (!editorEnabled) return;
     if (e.key === 'a' || e.key === 'A' || e.key === 'd' || e.key === 'D' || e.key === 'w' || e.key === 'W' || e.key === 's' || e.key === 'S') {
       editorPanKeys.delete(e.key);
     }
@@ -592,36 +896,59 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
   canvas.addEventListener('mouseup', handleMouseUp);
   canvas.addEventListener('contextmenu', handleContextMenu);
   canvas.addEventListener('wheel', handleWheel, { passive: false });
+  canvas.addEventListener('pointerdown', handlePointerDown);
+  canvas.addEventListener('pointermove', handlePointerMove);
+  canvas.addEventListener('pointerup', handlePointerUp);
+  canvas.addEventListener('pointercancel', handlePointerUp);
   window.addEventListener('keydown', handleKeyDown);
   window.addEventListener('keyup', handleKeyUp);
+  window.addEventListener('keydown', unlockAudio);
+  window.addEventListener('pointerdown', unlockAudio);
+  const stopSfx = Object.entries(EVENT_CUES).map(([type, cue]) =>
+    gameEvents.on(type as GameEventType, () => {
+      if (sfxEngine) playCue(sfxEngine, cue);
+    })
+  );
 
   const api: GameApi = {
     toggleEditor: () => {
+      if (sim.playback) stopReplay();
       editorEnabled = !editorEnabled;
       dragStart = null;
       dragCurrent = null;
       panLast = null;
       editorPanKeys.clear();
       buttonLinkingId = null;
+      gateLinkingId = null;
+      setSelection(null);
+      selectionDrag = null;
       return editorEnabled;
     },
     setEditorEnabled: (enabled: boolean) => {
+      if (enabled && sim.playback) stopReplay();
       editorEnabled = enabled;
       dragStart = null;
       dragCurrent = null;
       panLast = null;
       editorPanKeys.clear();
       buttonLinkingId = null;
+      gateLinkingId = null;
+      setSelection(null);
+      selectionDrag = null;
       return editorEnabled;
     },
     getEditorEnabled: () => editorEnabled,
     setEditorTool: (tool: EditorTool) => {
+      if (tool.startsWith('plugin:') && !pluginForTool(tool)) return editorTool;
       editorTool = tool;
       dragStart = null;
       dragCurrent = null;
       panLast = null;
       editorPanKeys.clear();
       buttonLinkingId = null;
+      gateLinkingId = null;
+      setSelection(null);
+      selectionDrag = null;
       return editorTool;
     },
     getEditorTool: () => editorTool,
@@ -646,12 +973,17 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
     setLevelSize: (width: number, height: number) => {
       const nextWidth = snap(Math.max(GRID_SIZE * 10, Math.round(width)));
       const nextHeight = snap(Math.max(GRID_SIZE * 8, Math.round(height)));
-      levelConfig = { width: nextWidth, height: nextHeight };
-      rebuildBounds();
+      setLevelConfig({ width: nextWidth, height: nextHeight });
+      persistLevel();
+      return sim.levelConfig;
+    },
+    getLevelSize: () => sim.levelConfig,
+    setLevelTheme: (theme: ThemeId | null) => {
+      sim.levelTheme = theme && THEME_IDS.includes(theme) ? theme : null;
       persistLevel();
-      return levelConfig;
+      return sim.levelTheme;
     },
-    getLevelSize: () => levelConfig,
+    getLevelTheme: () => sim.levelTheme,
     setBridgeMove: (dx: number, dy: number) => {
       const nx = Math.round(dx);
       const ny = Math.round(dy);
@@ -685,48 +1017,229 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
       return bridgeRequiredPlayers;
     },
     getBridgeRequiredPlayers: () => bridgeRequiredPlayers,
+    setGateKind: (kind: GateKind) => {
+      if (GATE_KINDS.includes(kind)) gateKind = kind;
+      return gateKind;
+    },
+    getGateKind: () => gateKind,
+    listEntityPlugins: () =>
+      listEntityPlugins().map(plugin => ({
+        type: plugin.type,
+        name: plugin.name,
+        settings: plugin.settings ?? [],
+        values: pluginSettingsFor(plugin)
+      })),
+    setPluginSetting: (type: string, key: string, value: number | boolean | string) => {
+      const plugin = getEntityPlugin(type);
+      if (!plugin) return null;
+      const values = pluginSettingsFor(plugin);
+      const next = normalizePluginSetting(plugin, key, value);
+      if (next === null) return values;
+      values[key] = next;
+      pluginSettings.set(type, values);
+      return values;
+    },
+    getInspectorTarget: () => getInspectorTarget(),
+    getKeyboardProfiles: () => keyboardProfiles.map(p => ({ ...p, keys: { ...p.keys } })),
+    startKeyRebind: (profile: number, action: InputAction) => {
+      if (!keyboardProfiles[profile]) return;
+      keyRebind = { profile, action };
+      notifyBindingListeners();
+    },
+    cancelKeyRebind: () => {
+      keyRebind = null;
+      notifyBindingListeners();
+    },
+    getKeyRebind: () => (keyRebind ? { ...keyRebind } : null),
+    resetKeyBindings: () => {
+      keyboardProfiles = createDefaultKeyboardProfiles();
+      writeKeyboardProfiles(keyboardProfiles);
+      keyRebind = null;
+      notifyBindingListeners();
+      return keyboardProfiles.map(p => ({ ...p, keys: { ...p.keys } }));
+    },
+    listGamepads: () =>
+      navigator
+        .getGamepads()
+        .filter((gp): gp is Gamepad => gp !== null)
+        .map(gp => ({ index: gp.index, id: gp.id, mapping: { ...gamepadMappingFor(gp.id) } })),
+    startGamepadRebind: (index: number, field: GamepadField) => {
+      const gp = navigator.getGamepads()[index];
+      if (!gp) return;
+      gamepadRebind = { index, id: gp.id, field, baseline: captureGamepadBaseline(gp) };
+      notifyBindingListeners();
+    },
+    cancelGamepadRebind: () => {
+      gamepadRebind = null;
+      notifyBindingListeners();
+    },
+    getGamepadRebind: () => (gamepadRebind ? { index: gamepadRebind.index, field: gamepadRebind.field } : null),
+    updateGamepadMapping: (id: string, patch: Partial<Pick<GamepadMapping, 'deadzone' | 'dpad'>>) => {
+      const next = { ...gamepadMappingFor(id), ...patch };
+      next.deadzone = Math.max(MIN_DEADZONE, Math.min(MAX_DEADZONE, next.deadzone));
+      setGamepadMapping(id, next);
+      return { ...next };
+    },
+    resetGamepadMapping: (id: string) => {
+      gamepadMappings.delete(id);
+      writeGamepadMappings(gamepadMappings);
+      notifyBindingListeners();
+      return createDefaultGamepadMapping();
+    },
+    setPalette: (palette: PaletteId) => {
+      paletteSettings = { ...paletteSettings, palette };
+      writePaletteSettings(paletteSettings);
+      return { ...paletteSettings };
+    },
+    setSlotGlyphs: (enabled: boolean) => {
+      paletteSettings = { ...paletteSettings, glyphs: enabled };
+      writePaletteSettings(paletteSettings);
+      return { ...paletteSettings };
+    },
+    getPaletteSettings: () => ({ ...paletteSettings }),
+    setMasterVolume: (volume: number) => updateAudioSettings({ master: Math.max(0, Math.min(1, volume)) }),
+    setSfxVolume: (volume: number) => updateAudioSettings({ sfx: Math.max(0, Math.min(1, volume)) }),
+    setMuted: (muted: boolean) => updateAudioSettings({ muted }),
+    getAudioSettings: () => ({ ...audioSettings }),
+    on: (type, listener) => gameEvents.on(type, listener),
+    onBindingsChange: (listener: () => void) => {
+      bindingListeners.add(listener);
+      return () => {
+        bindingListeners.delete(listener);
+      };
+    },
+    onSelectionChange: (listener: () => void) => {
+      selectionListeners.add(listener);
+      return () => {
+        selectionListeners.delete(listener);
+      };
+    },
+    updateSelectedBridge: (patch: BridgePatch, commit = true) =>
+      selection?.kind === 'bridge' ? applySelectionEdit(sim.updateBridge(selection.id, patch), commit) : null,
+    updateSelectedBlock: (patch: BlockPatch) =>
+      selection?.kind === 'block' ? applySelectionEdit(sim.updateBlock(selection.id, patch, blockRequired), true) : null,
+    updateSelectedButton: (patch: ButtonPatch) =>
+      selection?.kind === 'button' ? applySelectionEdit(sim.updateButton(selection.id, patch), true) : null,
+    updateSelectedGate: (patch: GatePatch, commit = true) =>
+      selection?.kind === 'gate' ? applySelectionEdit(sim.updateGate(selection.id, patch), commit) : null,
+    commitSelectionEdit: () => commitSelectionEdit(),
     undo: () => performUndo(),
     redo: () => performRedo(),
-    exportLevel: () =>
-      JSON.stringify(
-        {
-          config: levelConfig,
-          platforms: levelRects,
-          door: doorRect,
-          spawn: spawnPoint,
-          key: keyPoint,
-          blocks: blockDefs,
-          bridges: bridgeDefs,
-          buttons: buttonDefs,
-          spikes: spikeRects
-        } satisfies LevelState
-      ),
-    importLevel: (json: string) => {
-      loadLevelFromJson(json);
-    },
+    exportLevel: () => JSON.stringify(sim.buildLevelState()),
+    importLevel: (json: string) => loadLevelFromJson(json),
+    verifyLevel: (playerCount: number) => verifyLevelState(sim.buildLevelState(), playerCount),
     saveLevel: () => {
       persistLevel();
     },
     loadLevel: () => {
-      loadLevelFromStorage();
+      if (activePack) loadPackLevel(packLevelIndex);
+      else loadLevelFromStorage();
     },
     clearLevel: () => {
       clearLevelData();
-    }
+    },
+    listLevels: () => listLibraryLevels(),
+    getCurrentLevelId: () => currentLevelId,
+    openLevel: (id: string) => openLevelById(id),
+    createLevel: (name: string) => {
+      const entry = createLibraryLevel(name, null);
+      openLevelById(entry.id);
+      return entry;
+    },
+    saveLevelAs: (name: string) => {
+      const entry = createLibraryLevel(name, JSON.stringify(sim.buildLevelState()));
+      openLevelById(entry.id);
+      return entry;
+    },
+    renameLevel: (id: string, name: string) => renameLibraryLevel(id, name),
+    duplicateLevel: (id: string) => {
+      const source = getLibraryEntry(id);
+      if (!source) return null;
+      const json = id === currentLevelId && !activePack ? JSON.stringify(sim.buildLevelState()) : readLibraryLevel(id);
+      return createLibraryLevel(`${source.name} copy`, json);
+    },
+    deleteLevel: (id: string) => {
+      if (!deleteLibraryLevel(id)) return false;
+      levelHistories.delete(id);
+      removeGhost(libraryGhostKey(id));
+      removeBestTime(libraryGhostKey(id));
+      if (id === currentLevelId) {
+        currentLevelId = null;
+        // A pack being played stays open; leaving it falls back to another level.
+        if (!activePack) openLevelById(getLastOpenedLevelId() ?? createLibraryLevel('Untitled level', null).id);
+      }
+      return true;
+    },
+    listPacks: () => listStoredPacks(),
+    importPack: (json: string) => {
+      const result = parseLevelPackJson(json, sim.levelConfig);
+      if (!result.pack) return result;
+      storePack(result.pack);
+      if (activePack?.meta.id === result.pack.meta.id) startPackById(result.pack.meta.id, true);
+      return result;
+    },
+    exportPack: (name: string) => {
+      const levels: LevelState[] = [];
+      for (const entry of listLibraryLevels()) {
+        if (entry.id === currentLevelId && !activePack) {
+          levels.push(sim.buildLevelState());
+          continue;
+        }
+        const json = readLibraryLevel(entry.id);
+        if (!json) continue;
+        const parsed = parseLevelJson(json, sim.levelConfig);
+        if (parsed.level) levels.push(parsed.level);
+      }
+      const pack = buildLevelPack({ id: createPackId(), name: name.trim() || 'Level pack' }, levels);
+      return JSON.stringify(pack);
+    },
+    startPack: (id: string) => startPackById(id, false),
+    restartPack: () => (activePack ? startPackById(activePack.meta.id, true) : false),
+    exitPack: () => {
+      if (activePack) leavePack();
+    },
+    deletePack: (id: string) => {
+      if (activePack?.meta.id === id) leavePack();
+      removeStoredPack(id);
+      removeGhosts(packGhostKey(id));
+      removeBestTimes(packGhostKey(id));
+    },
+    getPackStatus: () => {
+      if (!activePack) return null;
+      const progress = readPackProgress(activePack.meta.id, activePack.levels.length);
+      return {
+        meta: activePack.meta,
+        levelIndex: packLevelIndex,
+        levelCount: activePack.levels.length,
+        completed: progress.completed,
+        finished: packFinished
+      };
+    },
+    exportReplay: () => (sim.run?.recording ? JSON.stringify(sim.run.recording) : null),
+    playReplay: (json: string) => {
+      const result = parseReplayJson(json, sim.levelConfig);
+      if (result.replay) startReplay(result.replay);
+      return result;
+    },
+    stopReplay: () => stopReplay(),
+    isReplaying: () => sim.playback !== null,
+    setGhostVisible: (visible: boolean) => {
+      ghostVisible = visible;
+      writeGhostVisible(visible);
+      return ghostVisible;
+    },
+    getGhostVisible: () => ghostVisible,
+    hasGhost: () => bestGhost !== null
   };
 
-  const cleanupCarrying = initPlayerCarrying(engine, () => playerSlots);
-  const cleanupBlockCarrying = initBlockCarrying(engine, blockBodies);
-
   // Game Loop
-  const fixedDeltaMs = 1000 / 60;
   let lastFrameNow = performance.now();
   let accumulatorMs = 0;
   let rafId = 0;
   let destroyed = false;
   const update = () => {
     if (destroyed) return;
-    updateInput();
+    const liveInput = readInputFrame();
     if (paused) {
       lastFrameNow = performance.now();
       accumulatorMs = 0;
@@ -740,37 +1253,12 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
     lastFrameNow = now;
     accumulatorMs += frameDeltaMs;
 
-    while (accumulatorMs >= fixedDeltaMs) {
-      checkGrounding();
-      {
-        const next = sysUpdateKey(engine, keyBody, keyCarrierSlot, playerSlots, doorUnlocked, doorBody);
-        keyBody = next.keyBody;
-        keyCarrierSlot = next.keyCarrierSlot;
-        doorUnlocked = next.doorUnlocked;
-      }
-      sysUpdateButtons(buttonBodies, buttonDefs, playerSlots, blockBodies, bridgeDefs, bridgeActivated, bridgeLatched, buttonPressed);
-      sysUpdateBridges(
-        bridgeBodies,
-        bridgeDefs,
-        bridgeHomeCenters,
-        bridgeActivated,
-        bridgeLatched,
-        bridgeCarryX,
-        blockBodies,
-        playerSlots
-      );
-      sysUpdateBlocks(blockBodies, blockDefs, playerSlots, blockPusherCounts, engine);
-      {
-        const next = sysUpdateDoor(doorBody, keyPoint, doorUnlocked, playerSlots, levelCompleted, completionFrames);
-        levelCompleted = next.levelCompleted;
-        completionFrames = next.completionFrames;
-      }
-      sysUpdateSpikes(spikeBodies, playerSlots, respawnAllPlayers);
+    while (accumulatorMs >= FIXED_STEP_MS) {
+      accumulatorMs -= FIXED_STEP_MS;
+      if (!sim.advance(liveInput)) continue;
+      if (!sim.playback && !runResult && sim.stats.finishFrame !== null) finishRun();
       updateCameraFollow();
       updateEditorCameraPan();
-
-      Engine.update(engine, fixedDeltaMs);
-      accumulatorMs -= fixedDeltaMs;
     }
     
     // Draw
@@ -794,170 +1282,218 @@ export function initGame(canvasElement: HTMLCanvasElement): { destroy: () => voi
     canvas.removeEventListener('mouseup', handleMouseUp);
     canvas.removeEventListener('contextmenu', handleContextMenu);
     canvas.removeEventListener('wheel', handleWheel);
-    if (cleanupCarrying) cleanupCarrying();
-    if (cleanupBlockCarrying) cleanupBlockCarrying();
-    Engine.clear(engine);
-    playerSlots = [null, null, null, null];
+    canvas.removeEventListener('pointerdown', handlePointerDown);
+    canvas.removeEventListener('pointermove', handlePointerMove);
+    canvas.removeEventListener('pointerup', handlePointerUp);
+    canvas.removeEventListener('pointercancel', handlePointerUp);
+    window.removeEventListener('keydown', unlockAudio);
+    window.removeEventListener('pointerdown', unlockAudio);
+    for (const stop of stopSfx) stop();
+    void sfxEngine?.context.close();
+    sfxEngine = null;
+    sim.destroy();
+    slotDevices.fill(null);
+    for (const unregister of unregisterPlugins) unregister();
   };
 
   return { destroy, api };
 }
 
-function updateInput() {
+// The first key or pointer press starts the audio context; browsers keep it
+// suspended until then.
+function unlockAudio() {
+  if (!sfxEngine) sfxEngine = createSfxEngine(audioSettings);
+  if (sfxEngine?.context.state === 'suspended') void sfxEngine.context.resume();
+}
+
+function updateAudioSettings(patch: Partial<AudioSettings>): AudioSettings {
+  audioSettings = { ...audioSettings, ...patch };
+  writeAudioSettings(audioSettings);
+  if (sfxEngine) applyAudioSettings(sfxEngine, audioSettings);
+  return { ...audioSettings };
+}
+
+// Binds a controller to the first free slot; the player spawns on the next step.
+function claimSlot(device: SlotDevice): number | null {
+  const slot = slotDevices.findIndex(d => d === null);
+  if (slot === -1) return null;
+  slotDevices[slot] = device;
+  backHoldFrames[slot] = 0;
+  lastMenuPressed[slot] = false;
+  lastBackPressed[slot] = false;
+  return slot;
+}
+
+function releaseSlot(slot: number) {
+  const device = slotDevices[slot];
+  if (device?.kind === 'keyboard') {
+    keyboardStates[device.profile] = { left: false, right: false, jump: false, leave: false };
+  }
+  // Fingers still down stay ignored until lifted, so a leave hold can't rejoin at once.
+  if (device?.kind === 'touch') touchSides[device.side] = createTouchSide();
+  slotDevices[slot] = null;
+  backHoldFrames[slot] = 0;
+  lastBackPressed[slot] = false;
+}
+
+// Finds the pad bound to a slot: same index and id first, then the nearest pad
+// with the same id (browsers may renumber), then whatever sits at the old index.
+function findGamepad(
+  device: { index: number; id: string },
+  gamepads: ReadonlyArray<Gamepad | null>,
+  usedIndices: Set<number>
+): Gamepad | null {
+  const direct = gamepads[device.index];
+  if (direct && direct.id === device.id) return direct;
+  const candidates = gamepads.filter(
+    (gp): gp is Gamepad => gp !== null && gp.id === device.id && !usedIndices.has(gp.index)
+  );
+  if (candidates.length > 0) {
+    const best = candidates.reduce((prev, curr) => {
+      const prevDist = Math.abs(prev.index - device.index);
+      const currDist = Math.abs(curr.index - device.index);
+      return currDist < prevDist ? curr : prev;
+    });
+    device.index = best.index;
+    return best;
+  }
+  if (direct && !usedIndices.has(direct.index)) return direct;
+  return null;
+}
+
+// Holding Back/Backspace long enough frees the slot.
+function updateLeaveHold(slot: number, held: boolean): boolean {
+  if (!held) {
+    backHoldFrames[slot] = 0;
+    return false;
+  }
+  backHoldFrames[slot] += 1;
+  if (backHoldFrames[slot] < LEAVE_HOLD_FRAMES) return false;
+  releaseSlot(slot);
+  return true;
+}
+
+function gamepadMappingFor(id: string): GamepadMapping {
+  return gamepadMappings.get(id) ?? createDefaultGamepadMapping();
+}
+
+function setGamepadMapping(id: string, mapping: GamepadMapping) {
+  gamepadMappings.set(id, mapping);
+  writeGamepadMappings(gamepadMappings);
+  notifyBindingListeners();
+}
+
+// Returns the index of the pad being rebound, whose input is withheld from play.
+function updateGamepadRebind(gamepads: ReadonlyArray<Gamepad | null>): number | null {
+  if (!gamepadRebind) return null;
+  const gp = gamepads[gamepadRebind.index];
+  if (!gp || gp.id !== gamepadRebind.id) {
+    gamepadRebind = null;
+    notifyBindingListeners();
+    return null;
+  }
+  const detected = detectGamepadInput(gp, gamepadRebind.baseline, gamepadRebind.field);
+  if (detected === null) return gp.index;
+  const { id, field } = gamepadRebind;
+  gamepadRebind = null;
+  setGamepadMapping(id, assignGamepadInput(gamepadMappingFor(id), field, detected));
+  return gp.index;
+}
+
+function readInputFrame(): InputFrame {
   const gamepads = navigator.getGamepads();
   const usedIndices = new Set<number>();
+  const rebindingIndex = updateGamepadRebind(gamepads);
 
   // Allow joining by pressing Jump on any connected controller
   for (const gp of gamepads) {
-    if (!gp) continue;
-    const alreadyJoined = playerSlots.some(p => p && p.gamepadId === gp.id && p.gamepadIndex === gp.index);
+    if (!gp || gp.index === rebindingIndex) continue;
+    const alreadyJoined = slotDevices.some(d => d?.kind === 'gamepad' && (d.index === gp.index || d.id === gp.id));
     if (alreadyJoined) continue;
-    const jumpPressed = Boolean(gp.buttons[0]?.pressed);
-    if (jumpPressed) addPlayer(gp);
+    if (isButtonPressed(gp, gamepadMappingFor(gp.id).jump)) claimSlot({ kind: 'gamepad', index: gp.index, id: gp.id });
   }
 
-  for (const player of playerSlots) {
-    if (!player) continue;
-
-    const direct = gamepads[player.gamepadIndex];
-    if (direct && direct.id === player.gamepadId) {
-      usedIndices.add(direct.index);
-      const menuPressed = Boolean(direct.buttons[9]?.pressed) || Boolean(direct.buttons[16]?.pressed);
-      const backPressed = Boolean(direct.buttons[8]?.pressed);
-      const slot = playerSlots.indexOf(player);
-      if (slot >= 0) {
-        if (menuPressed && !lastMenuPressed[slot]) togglePause();
-        lastMenuPressed[slot] = menuPressed;
-        if (backPressed) {
-          backHoldFrames[slot] += 1;
-          if (backHoldFrames[slot] >= LEAVE_HOLD_FRAMES) {
-            Composite.remove(engine.world, player.body);
-            playerSlots[slot] = null;
-            backHoldFrames[slot] = 0;
-            lastBackPressed[slot] = false;
-            continue;
-          }
-        } else {
-          backHoldFrames[slot] = 0;
-        }
-        lastBackPressed[slot] = backPressed;
-      }
-      if (!paused) player.handleInput(direct);
+  const frame: InputFrame = [null, null, null, null];
+  for (let slot = 0; slot < slotDevices.length; slot += 1) {
+    const device = slotDevices[slot];
+    if (!device) continue;
+
+    if (device.kind === 'keyboard') {
+      const state = keyboardStates[device.profile];
+      if (updateLeaveHold(slot, state.leave)) continue;
+      const axisX = (state.left ? -1 : 0) + (state.right ? 1 : 0);
+      frame[slot] = { axisX, jump: state.jump };
       continue;
     }
 
-    const candidates = gamepads.filter(
-      (gp): gp is Gamepad => gp !== null && gp.id === player.gamepadId && !usedIndices.has(gp.index)
-    );
-    if (candidates.length > 0) {
-      const best = candidates.reduce((prev, curr) => {
-        const prevDist = Math.abs(prev.index - player.gamepadIndex);
-        const currDist = Math.abs(curr.index - player.gamepadIndex);
-        return currDist < prevDist ? curr : prev;
-      });
-
-      player.gamepadIndex = best.index;
-      usedIndices.add(best.index);
-      const menuPressed = Boolean(best.buttons[9]?.pressed) || Boolean(best.buttons[16]?.pressed);
-      const backPressed = Boolean(best.buttons[8]?.pressed);
-      const slot = playerSlots.indexOf(player);
-      if (slot >= 0) {
-        if (menuPressed && !lastMenuPressed[slot]) togglePause();
-        lastMenuPressed[slot] = menuPressed;
-        if (backPressed) {
-          backHoldFrames[slot] += 1;
-          if (backHoldFrames[slot] >= LEAVE_HOLD_FRAMES) {
-            Composite.remove(engine.world, player.body);
-            playerSlots[slot] = null;
-            backHoldFrames[slot] = 0;
-            lastBackPressed[slot] = false;
-            continue;
-          }
-        } else {
-          backHoldFrames[slot] = 0;
-        }
-        lastBackPressed[slot] = backPressed;
-      }
-      if (!paused) player.handleInput(best);
+    if (device.kind === 'touch') {
+      const side = touchSides[device.side];
+      if (updateLeaveHold(slot, side.leaveId !== null)) continue;
+      const pad = readTouchPad(side);
+      const jumpPressed = pad.buttons[0].pressed;
+      if (resultsPromptsReady() && jumpPressed && !lastContinuePressed[slot]) continueAfterResults();
+      lastContinuePressed[slot] = jumpPressed;
+      frame[slot] = { axisX: pad.axes[0], jump: jumpPressed };
       continue;
     }
 
-    if (direct && !usedIndices.has(direct.index)) {
-      usedIndices.add(direct.index);
-      const menuPressed = Boolean(direct.buttons[9]?.pressed) || Boolean(direct.buttons[16]?.pressed);
-      const backPressed = Boolean(direct.buttons[8]?.pressed);
-      const slot = playerSlots.indexOf(player);
-      if (slot >= 0) {
-        if (menuPressed && !lastMenuPressed[slot]) togglePause();
-        lastMenuPressed[slot] = menuPressed;
-        if (backPressed) {
-          backHoldFrames[slot] += 1;
-          if (backHoldFrames[slot] >= LEAVE_HOLD_FRAMES) {
-            Composite.remove(engine.world, player.body);
-            playerSlots[slot] = null;
-            backHoldFrames[slot] = 0;
-            lastBackPressed[slot] = false;
-            continue;
-          }
-        } else {
-          backHoldFrames[slot] = 0;
-        }
-        lastBackPressed[slot] = backPressed;
-      }
-      if (!paused) player.handleInput(direct);
+    const gp = findGamepad(device, gamepads, usedIndices);
+    if (!gp) {
+      frame[slot] = { axisX: 0, jump: false };
+      continue;
     }
-  }
-
-  if (keyboardPlayerSlot !== null) {
-    const p = playerSlots[keyboardPlayerSlot];
-    if (p && !paused) {
-      const axisX = (keyboardState.left ? -1 : 0) + (keyboardState.right ? 1 : 0);
-      const gpLike = {
-        axes: [axisX],
-        buttons: [{ pressed: keyboardState.jump }]
-      };
-      p.handleInput(gpLike);
-      const slot = keyboardPlayerSlot;
-      if (keyboardLeavePressed) {
-        backHoldFrames[slot] += 1;
-        if (backHoldFrames[slot] >= LEAVE_HOLD_FRAMES) {
-          Composite.remove(engine.world, p.body);
-          playerSlots[slot] = null;
-          keyboardPlayerSlot = null;
-          backHoldFrames[slot] = 0;
-          keyboardLeavePressed = false;
-          keyboardState.left = false;
-          keyboardState.right = false;
-          keyboardState.jump = false;
-        }
-      } else {
-        backHoldFrames[slot] = 0;
-      }
+    usedIndices.add(gp.index);
+    if (gp.index === rebindingIndex) {
+      frame[slot] = { axisX: 0, jump: false };
+      continue;
     }
+    const mapping = gamepadMappingFor(gp.id);
+    const menuPressed = mapping.menu.some(button => isButtonPressed(gp, button));
+    if (menuPressed && !lastMenuPressed[slot]) togglePause();
+    lastMenuPressed[slot] = menuPressed;
+    const continuePressed = isButtonPressed(gp, mapping.jump);
+    const retryPressed = isButtonPressed(gp, mapping.retry);
+    const continueEdge = continuePressed && !lastContinuePressed[slot];
+    const retryEdge = retryPressed && !lastRetryPressed[slot];
+    lastContinuePressed[slot] = continuePressed;
+    lastRetryPressed[slot] = retryPressed;
+    if (resultsPromptsReady() && (continueEdge || retryEdge)) {
+      if (retryEdge) retryLevel();
+      else continueAfterResults();
+    }
+    const backPressed = isButtonPressed(gp, mapping.back);
+    lastBackPressed[slot] = backPressed;
+    if (updateLeaveHold(slot, backPressed)) continue;
+    frame[slot] = { axisX: readGamepadAxisX(gp, mapping), jump: continuePressed };
   }
+  return frame;
 }
 
 function updateCameraFollow() {
   if (editorEnabled) return;
-  const activePlayers = playerSlots.filter((p): p is Player => Boolean(p));
-  if (activePlayers.length === 0) {
+  const points = sim.playerSlots
+    .filter((p): p is Player => Boolean(p))
+    .map(p => ({ x: p.body.position.x, y: p.body.position.y }));
+  if (points.length === 0) {
     camera = { x: 0, y: 0 };
     clampCamera();
+    playViews = [];
     return;
   }
 
-  const avg = activePlayers.reduce(
-    (acc, p) => ({ x: acc.x + p.body.position.x, y: acc.y + p.body.position.y }),
-    { x: 0, y: 0 }
-  );
-  const centerX = avg.x / activePlayers.length;
-  const centerY = avg.y / activePlayers.length;
-  const targetX = centerX - canvas.width / 2;
-  const targetY = centerY - canvas.height / 2;
+  const targets = planViews(points, canvas.width, canvas.height, sim.levelConfig, playViews.length > 1);
+  playViews = followViews(playViews, targets, sim.levelConfig);
+  // Opening the editor picks up where a single follow camera was looking.
+  if (playViews.length === 1) {
+    camera = { x: playViews[0].x, y: playViews[0].y };
+    clampCamera();
+  }
+}
 
-  camera.x += (targetX - camera.x) * 0.12;
-  camera.y += (targetY - camera.y) * 0.12;
-  clampCamera();
+function currentViews(): CameraView[] {
+  const full = { x: 0, y: 0, w: canvas.width, h: canvas.height };
+  if (editorEnabled) return [{ rect: full, x: camera.x, y: camera.y, zoom: editorZoom }];
+  return playViews.length > 0 ? playViews : [{ rect: full, x: camera.x, y: camera.y, zoom: 1 }];
 }
 
 function updateEditorCameraPan() {
@@ -981,62 +1517,137 @@ function updateEditorCameraPan() {
   clampCamera();
 }
 
-function checkGrounding() {
-  // Simple grounding check using Matter.Query
-  playerSlots.forEach(player => {
-    if (!player) return;
-    const bodies = Composite.allBodies(engine.world);
-    const groundBodies = bodies.filter(
-      b =>
-        b !== player.body &&
-        (b.label === 'ground' ||
-          b.label === 'platform' ||
-          b.label === 'player' ||
-          b.label === 'block' ||
-          b.label === 'bridge')
-    );
-    
-    // Check slightly below the player
-    const regionBelow = {
-      min: { x: player.body.position.x - 18, y: player.body.position.y + 21 },
-      max: { x: player.body.position.x + 18, y: player.body.position.y + 25 }
-    };
-    const belowHits = Matter.Query.region(groundBodies, regionBelow);
-    const isGrounded = belowHits.length > 0;
-
-    const otherPlayers = playerSlots.filter((p): p is Player => Boolean(p) && p !== player);
-    const playerContacts = Matter.Query.collides(player.body, otherPlayers.map(p => p.body));
-    const hasPlayerAbove = playerContacts.some(c => {
-      const other = c.bodyA === player.body ? c.bodyB : c.bodyA;
-      return other.label === 'player' && other.position.y < player.body.position.y - 5;
+function draw() {
+  // Clear canvas
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  const theme = resolveTheme(sim.levelTheme);
+  const views = currentViews();
+  for (const view of views) {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(view.rect.x, view.rect.y, view.rect.w, view.rect.h);
+    ctx.clip();
+    ctx.fillStyle = theme.background;
+    ctx.fillRect(view.rect.x, view.rect.y, view.rect.w, view.rect.h);
+    ctx.translate(view.rect.x, view.rect.y);
+    ctx.scale(view.zoom, view.zoom);
+    ctx.translate(-view.x, -view.y);
+    drawWorld(view.zoom, theme);
+    ctx.restore();
+    if (!editorEnabled) drawOffscreenIndicators(ctx, view, playerMarkers(), paletteSettings.glyphs);
+  }
+  if (views.length > 1) {
+    ctx.save();
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 3;
+    for (const view of views) ctx.strokeRect(view.rect.x, view.rect.y, view.rect.w, view.rect.h);
+    ctx.restore();
+  }
+
+  if (touchControlsVisible && !editorEnabled && !sim.playback) {
+    const colors = touchSides.map((_, side) => {
+      const slot = slotDevices.findIndex(d => d?.kind === 'touch' && d.side === side);
+      return slot >= 0 ? playerColor(slot) : null;
     });
+    drawTouchControls(ctx, touchLayout(canvas.width, canvas.height), touchSides, colors);
+  }
+
+  if (!editorEnabled) drawPlayerHud(ctx, canvas.width, playerHudEntries(), paletteSettings.glyphs, theme);
+
+  if (!editorEnabled && sim.stats.startFrame !== null) drawRunTimer(ctx, canvas.width, sim.elapsedFrames(), sim.stats.deaths, theme);
+
+  const results = resultsVisible() ? buildResultsView() : null;
+  if (results) {
+    drawResults(ctx, canvas.width, canvas.height, results, theme);
+  } else if (sim.levelCompleted) {
+    ctx.fillStyle = theme.text;
+    ctx.font = `48px ${theme.font}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('LEVEL COMPLETE', canvas.width / 2, canvas.height / 2);
+    if (activePack && packFinished) {
+      ctx.font = `20px ${theme.font}`;
+      ctx.fillText(`${activePack.meta.name} complete!`, canvas.width / 2, canvas.height / 2 + 44);
+    }
+    ctx.textAlign = 'start';
+    ctx.textBaseline = 'alphabetic';
+  }
+
+  if (activePack) {
+    ctx.fillStyle = theme.text;
+    ctx.font = `16px ${theme.font}`;
+    ctx.textAlign = 'right';
+    ctx.fillText(
+      `${activePack.meta.name} ${packLevelIndex + 1}/${activePack.levels.length}`,
+      canvas.width - 12,
+      24
+    );
+    ctx.textAlign = 'start';
+  }
 
-    const pushingBlock =
-      blockBodies.some(b => {
-        if (Matter.Query.collides(player.body, [b]).length === 0) return false;
-        const dx = b.position.x - player.body.position.x;
-        if (dx > 0 && player.moveAxisX > 0.2) return true;
-        if (dx > 0 && player.moveAxisX > 0.2) return true;
-        if (dx < 0 && player.moveAxisX < -0.2) return true;
-        return false;
-      });
-    const pushSlowdown = pushingBlock ? 0.6 : 1;
-    player.update(isGrounded, isGrounded && !hasPlayerAbove, pushSlowdown);
+  if (sim.playback) {
+    const { frame } = sim.playback.cursor;
+    const total = sim.playback.replay.frameCount;
+    ctx.fillStyle = theme.text;
+    ctx.font = `16px ${theme.font}`;
+    ctx.textAlign = 'right';
+    ctx.fillText(
+      frame >= total ? 'Replay finished' : `Replay ${frame}/${total}`,
+      canvas.width - 12,
+      activePack ? 48 : 24
+    );
+    ctx.textAlign = 'start';
+  }
+}
+
+function playerColor(slot: number): string {
+  return PALETTES[paletteSettings.palette].colors[slot] ?? '#ffffff';
+}
+
+function playerMarkers(): Array<{ slot: number; x: number; y: number; color: string }> {
+  const markers: Array<{ slot: number; x: number; y: number; color: string }> = [];
+  sim.playerSlots.forEach((player, slot) => {
+    if (!player) return;
+    markers.push({ slot, x: player.body.position.x, y: player.body.position.y, color: playerColor(slot) });
   });
+  return markers;
 }
 
-function draw() {
-  // Clear canvas
-  ctx.clearRect(0, 0, canvas.width, canvas.height);
+function deviceLabel(slot: number): string {
+  if (sim.playback) return 'Replay';
+  const device = slotDevices[slot];
+  if (!device) return '';
+  if (device.kind === 'keyboard') return `Keyboard ${device.profile + 1}`;
+  if (device.kind === 'touch') return device.side === 0 ? 'Touch left' : 'Touch right';
+  return device.id;
+}
 
-  // Draw static bodies (walls/platforms)
-  const bodies = Composite.allBodies(engine.world);
-  const zoom = editorEnabled ? editorZoom : 1;
-  ctx.save();
-  ctx.scale(zoom, zoom);
-  ctx.translate(-camera.x, -camera.y);
+function playerHudEntries(): PlayerHudEntry[] {
+  const entries: PlayerHudEntry[] = [];
+  sim.playerSlots.forEach((player, slot) => {
+    if (!player) return;
+    entries.push({
+      slot,
+      color: playerColor(slot),
+      device: deviceLabel(slot),
+      hasKey: sim.keyCarrierSlot === slot,
+      leaveProgress: Math.min(1, backHoldFrames[slot] / LEAVE_HOLD_FRAMES)
+    });
+  });
+  return entries;
+}
 
+// Everything in world space; draw() calls it once per viewport.
+function drawWorld(zoom: number, theme: Theme) {
+  // Draw static bodies (walls/platforms)
+  const bodies = Composite.allBodies(sim.engine.world);
   bodies.forEach(body => {
+    const pluginEntity = sim.entities.pluginFromBody(body);
+    if (pluginEntity) {
+      pluginEntity.plugin.draw(ctx, pluginEntity, theme);
+      return;
+    }
     if (body.isStatic || body.label === 'block') {
       if (body.vertices) {
         if (body.label === 'key') {
@@ -1044,54 +1655,75 @@ function draw() {
           const r = circleRadius !== undefined ? circleRadius : (body.bounds.max.x - body.bounds.min.x) / 2;
           const cx = body.position.x;
           const cy = body.position.y;
-          drawKey(ctx, cx, cy, r);
+          drawKey(ctx, cx, cy, r, theme);
           return;
         }
         if (body.label === 'button') {
-          const idx = buttonBodies.indexOf(body);
-          const def = idx >= 0 ? buttonDefs[idx] : undefined;
-          const pressed = idx >= 0 ? Boolean(buttonPressed[idx]) : false;
+          const button = sim.entities.fromBody('button', body);
+          const def = button?.def;
+          const pressed = button ? button.state.pressed : false;
           const bx = def ? def.x : body.bounds.min.x;
           const by = def ? def.y : body.bounds.min.y;
           const bw = def ? def.w : body.bounds.max.x - body.bounds.min.x;
           const bh = def ? def.h : body.bounds.max.y - body.bounds.min.y;
-          drawButton(ctx, bx, by, bw, bh, pressed);
+          drawButton(ctx, bx, by, bw, bh, pressed, theme);
           return;
         }
         if (body.label === 'door') {
-          drawDoor(ctx, body, { hasKeyPoint: Boolean(keyPoint), doorUnlocked, levelCompleted });
+          drawDoor(
+            ctx,
+            body,
+            {
+              hasKeyPoint: Boolean(sim.keyPoint),
+              doorUnlocked: sim.doorUnlocked,
+              doorPowered: sim.isDoorPowered(),
+              levelCompleted: sim.levelCompleted
+            },
+            theme
+          );
           return;
         }
         if (body.label === 'block') {
-          const idx = blockBodies.indexOf(body);
-          const def = idx >= 0 ? blockDefs[idx] : undefined;
+          const block = sim.entities.fromBody('block', body);
+          const def = block?.def;
           const required = def?.allowedPlayer === undefined ? def?.required : undefined;
-          const pushers = idx >= 0 ? blockPusherCounts[idx] ?? 0 : 0;
-          const color =
-            def?.allowedPlayer !== undefined && def.allowedPlayer >= 0 && def.allowedPlayer < PLAYER_COLORS.length
-              ? PLAYER_COLORS[def.allowedPlayer]
+          const pushers = block ? block.state.pushers : 0;
+          const allowed =
+            def?.allowedPlayer !== undefined && def.allowedPlayer >= 0 && def.allowedPlayer < sim.playerSlots.length
+              ? def.allowedPlayer
               : undefined;
-          drawBlock(ctx, body, { required, pushers, color });
+          const color = allowed !== undefined ? playerColor(allowed) : undefined;
+          const glyphSlot = paletteSettings.glyphs ? allowed : undefined;
+          drawBlock(ctx, body, { required, pushers, color, glyphSlot }, theme);
           return;
         }
         if (body.label === 'bridge') {
-          const idx = bridgeBodies.indexOf(body);
-          const def = idx >= 0 ? bridgeDefs[idx] : undefined;
+          const def = sim.entities.fromBody('bridge', body)?.def;
           const permanent = def ? Boolean(def.permanent) : false;
           const requiredPlayers = def?.requiredPlayers;
-          drawBridge(ctx, body, permanent, requiredPlayers);
+          drawBridge(ctx, body, permanent, theme, requiredPlayers);
+          return;
+        }
+        if (body.label === 'checkpoint') {
+          const def = sim.entities.fromBody('checkpoint', body)?.def;
+          if (def) drawCheckpoint(ctx, def.x, def.y, sim.activeCheckpoint?.def.id === def.id, theme);
+          return;
+        }
+        if (body.label === 'gate') {
+          const gate = sim.entities.fromBody('gate', body);
+          if (gate) drawGate(ctx, gate.def, gate.state.output, theme);
           return;
         }
         if (body.label === 'spike') {
-          drawSpike(ctx, body);
+          drawSpike(ctx, body, theme, isSpikeRetracted(sim.entities.fromBody('spike', body)?.def, sim.activeTargets));
           return;
         }
         if (body.label === 'ground') {
-          drawPlatform(ctx, body);
+          drawPlatform(ctx, body, theme);
           return;
         }
         if (body.label === 'platform') {
-          drawPlatform(ctx, body);
+          drawPlatform(ctx, body, theme);
           return;
         }
       }
@@ -1102,9 +1734,11 @@ function draw() {
     ctx.lineWidth = 2;
     ctx.save();
     ctx.setLineDash([8, 6]);
-    for (let i = 0; i < bridgeDefs.length; i += 1) {
-      const br = bridgeDefs[i];
-      if (!br) continue;
+    for (const br of sim.entities.defs('bridge')) {
+      if (br.path) {
+        drawBridgePath(ctx, [br, ...getWaypointRects(br)], br.path.mode === 'loop');
+        continue;
+      }
       if (!br.distance) continue;
       const dx = br.dx * br.distance;
       const dy = br.dy * br.distance;
@@ -1117,53 +1751,44 @@ function draw() {
     }
     ctx.restore();
 
-    for (const b of buttonDefs) {
-      if (b.targetBridgeId === null) continue;
-      const bridge = bridgeDefs.find(br => br.id === b.targetBridgeId);
-      if (!bridge) continue;
+    for (const b of [...sim.entities.defs('button'), ...sim.entities.defs('gate')]) {
       const bx = b.x + b.w / 2;
       const by = b.y + b.h / 2;
-      const tx = bridge.x + bridge.w / 2;
-      const ty = bridge.y + bridge.h / 2;
-      ctx.strokeStyle = '#ffffff';
-      ctx.beginPath();
-      ctx.moveTo(bx, by);
-      ctx.lineTo(tx, ty);
-      ctx.stroke();
+      for (const t of b.targets) {
+        const rect = getLinkTargetRect(t);
+        if (!rect) continue;
+        ctx.strokeStyle = LINK_COLORS[t.kind];
+        ctx.beginPath();
+        ctx.moveTo(bx, by);
+        ctx.lineTo(rect.x + rect.w / 2, rect.y + rect.h / 2);
+        ctx.stroke();
+      }
     }
 
-    if (buttonLinkingId !== null) {
-      const btn = buttonDefs.find(b => b.id === buttonLinkingId);
-      if (btn) {
-        ctx.strokeStyle = '#ffffff';
-        ctx.lineWidth = 3;
-        ctx.strokeRect(btn.x + 2, btn.y + 2, btn.w - 4, btn.h - 4);
-      }
+    const linking =
+      buttonLinkingId !== null
+        ? sim.entities.defs('button').find(b => b.id === buttonLinkingId)
+        : sim.entities.defs('gate').find(g => g.id === gateLinkingId);
+    if (linking) {
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 3;
+      ctx.strokeRect(linking.x + 2, linking.y + 2, linking.w - 4, linking.h - 4);
     }
   }
 
-  playerSlots.forEach(player => {
+  if (bestGhost && ghostVisible && !editorEnabled) {
+    const frame = ghostFrameAt(bestGhost, sim.elapsedFrames() - 1);
+    if (frame) drawGhost(ctx, frame, sim.playerSlots.map((_, slot) => playerColor(slot)));
+  }
+
+  sim.playerSlots.forEach((player, slot) => {
     if (!player) return;
-    player.draw(ctx);
-    const slot = playerSlots.indexOf(player);
-    const progress = slot >= 0 ? Math.min(1, backHoldFrames[slot] / LEAVE_HOLD_FRAMES) : 0;
-    if (progress > 0) {
-      const { x, y } = player.body.position;
-      const width = 40;
-      const height = 6;
-      const pad = 10;
-      ctx.fillStyle = 'rgba(255,255,255,0.5)';
-      ctx.fillRect(x - width / 2, y - 30 - pad, width, height);
-      ctx.fillStyle = '#e53935';
-      ctx.fillRect(x - width / 2, y - 30 - pad, width * progress, height);
-      ctx.strokeStyle = '#ffffff';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(x - width / 2, y - 30 - pad, width, height);
-    }
+    player.draw(ctx, theme, playerColor(slot));
+    if (paletteSettings.glyphs) drawSlotGlyph(ctx, slot, player.body.position.x, player.body.position.y, 16);
   });
 
-  if (spawnPoint) {
-    drawSpawn(ctx, spawnPoint.x, spawnPoint.y);
+  if (sim.spawnPoint) {
+    drawSpawn(ctx, sim.spawnPoint.x, sim.spawnPoint.y, theme);
   }
 
   if (editorEnabled) {
@@ -1187,45 +1812,52 @@ function draw() {
         ctx.restore();
       }
     }
-  }
-
-  ctx.restore();
 
-  if (levelCompleted) {
-    ctx.fillStyle = '#ffffff';
-    ctx.font = '48px sans-serif';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText('LEVEL COMPLETE', canvas.width / 2, canvas.height / 2);
-    ctx.textAlign = 'start';
-    ctx.textBaseline = 'alphabetic';
+    if (selection) {
+      const rect = getSelectionRect(selection, selectableWorld());
+      if (rect) drawSelection(ctx, rect, isResizable(selection) ? getHandlePoints(rect) : [], zoom);
+    }
   }
 }
 
 function drawPauseOverlay() {
+  const theme = resolveTheme(sim.levelTheme);
   ctx.save();
   ctx.fillStyle = 'rgba(0,0,0,0.5)';
   ctx.fillRect(0, 0, canvas.width, canvas.height);
-  ctx.fillStyle = '#ffffff';
-  ctx.font = '40px sans-serif';
+  ctx.fillStyle = theme.text;
+  ctx.font = `40px ${theme.font}`;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
   ctx.fillText('Paused', canvas.width / 2, canvas.height / 2 - 30);
-  ctx.font = '20px sans-serif';
-  ctx.fillText('Press Esc or Menu to resume', canvas.width / 2, canvas.height / 2 + 20);
+  ctx.font = `20px ${theme.font}`;
+  const pauseKey = keyboardProfiles[0]?.keys.pause[0];
+  const hint = pauseKey ? `Press ${keyLabel(pauseKey)} or Menu to resume` : 'Press Menu to resume';
+  ctx.fillText(hint, canvas.width / 2, canvas.height / 2 + 20);
   ctx.restore();
 }
 
+function pluginForTool(tool: EditorTool): EntityPlugin | undefined {
+  return tool.startsWith('plugin:') ? getEntityPlugin(tool.slice('plugin:'.length)) : undefined;
+}
+
+function pluginSettingsFor(plugin: EntityPlugin): PluginSettingValues {
+  return { ...defaultPluginSettings(plugin), ...pluginSettings.get(plugin.type) };
+}
+
 function toCanvasPoint(e: MouseEvent): { x: number; y: number } {
+  const p = toWorldPoint(e);
+  return { x: snap(p.x), y: snap(p.y) };
+}
+
+function toWorldPoint(e: MouseEvent): { x: number; y: number } {
   const rect = canvas.getBoundingClientRect();
   const scaleX = canvas.width / rect.width;
   const scaleY = canvas.height / rect.height;
   const zoom = editorEnabled ? editorZoom : 1;
   const x = (e.clientX - rect.left) * scaleX;
   const y = (e.clientY - rect.top) * scaleY;
-  const worldX = x / zoom + camera.x;
-  const worldY = y / zoom + camera.y;
-  return { x: snap(worldX), y: snap(worldY) };
+  return { x: x / zoom + camera.x, y: y / zoom + camera.y };
 }
 
 function toCanvasPointRaw(e: MouseEvent): { x: number; y: number } {
@@ -1246,63 +1878,22 @@ function toCanvasPointRawFromEvent(e: MouseEvent | WheelEvent): { x: number; y:
   return { x, y };
 }
 
-function snap(value: number): number {
-  return Math.round(value / GRID_SIZE) * GRID_SIZE;
-}
-
 function clampCamera() {
   const zoom = editorEnabled ? editorZoom : 1;
   const viewWidth = canvas.width / zoom;
   const viewHeight = canvas.height / zoom;
-  const maxX = Math.max(0, levelConfig.width - viewWidth);
-  const maxY = Math.max(0, levelConfig.height - viewHeight);
+  const maxX = Math.max(0, sim.levelConfig.width - viewWidth);
+  const maxY = Math.max(0, sim.levelConfig.height - viewHeight);
   camera.x = Math.max(0, Math.min(maxX, camera.x));
   camera.y = Math.max(0, Math.min(maxY, camera.y));
 }
 
-function togglePause() {
-  paused = !paused;
+function notifyBindingListeners() {
+  for (const listener of bindingListeners) listener();
 }
 
-function rebuildBounds() {
-  for (const body of boundaryBodies) {
-    Composite.remove(engine.world, body);
-  }
-  boundaryBodies = [];
-
-  const wallThickness = 60;
-  const groundThickness = 40;
-  const w = levelConfig.width;
-  const h = levelConfig.height;
-
-  const ground = Bodies.rectangle(w / 2, h - groundThickness / 2, w + 10, groundThickness, {
-    isStatic: true,
-    label: 'ground',
-    friction: 0,
-    frictionStatic: 0
-  });
-  const leftWall = Bodies.rectangle(wallThickness / 2 - 20, h / 2, wallThickness, h, {
-    isStatic: true,
-    label: 'ground',
-    friction: 0,
-    frictionStatic: 0
-  });
-  const rightWall = Bodies.rectangle(w - wallThickness / 2 + 20, h / 2, wallThickness, h, {
-    isStatic: true,
-    label: 'ground',
-    friction: 0,
-    frictionStatic: 0
-  });
-  const ceiling = Bodies.rectangle(w / 2, wallThickness / 2 - 20, w + 10, wallThickness, {
-    isStatic: true,
-    label: 'ground',
-    friction: 0,
-    frictionStatic: 0
-  });
-
-  boundaryBodies = [ground, leftWall, rightWall, ceiling];
-  Composite.add(engine.world, boundaryBodies);
-  clampCamera();
+function togglePause() {
+  paused = !paused;
 }
 
 function normalizeRect(a: { x: number; y: number }, b: { x: number; y: number }): LevelRect {
@@ -1315,508 +1906,324 @@ function normalizeRect(a: { x: number; y: number }, b: { x: number; y: number })
 
 
 
-function resetOnDeath() {
-  levelCompleted = false;
-  completionFrames = 0;
-  doorUnlocked = false;
-
-  if (keyPoint) {
-    if (!keyBody) {
-      keyBody = Bodies.circle(keyPoint.x, keyPoint.y, 12, { isStatic: true, isSensor: true, label: 'key' });
-      Composite.add(engine.world, keyBody);
-    }
-    Matter.Body.setPosition(keyBody, { x: keyPoint.x, y: keyPoint.y });
-    Matter.Body.setVelocity(keyBody, { x: 0, y: 0 });
-    Matter.Body.setAngularVelocity(keyBody, 0);
-    keyCarrierSlot = null;
-  } else {
-    if (keyBody) Composite.remove(engine.world, keyBody);
-    keyBody = null;
-    keyCarrierSlot = null;
-  }
-
-  for (let i = 0; i < blockBodies.length; i += 1) {
-    const body = blockBodies[i];
-    const def = blockDefs[i];
-    if (!body || !def) continue;
-    const cx = def.x + def.w / 2;
-    const cy = def.y + def.h / 2;
-    Matter.Body.setPosition(body, { x: cx, y: cy });
-    Matter.Body.setVelocity(body, { x: 0, y: 0 });
-    Matter.Body.setAngularVelocity(body, 0);
-    Matter.Body.setStatic(body, true);
-  }
 
-  for (let i = 0; i < bridgeBodies.length; i += 1) {
-    bridgeActivated[i] = false;
-    bridgeLatched[i] = false;
-    bridgeCarryX[i] = 0;
-
-    const body = bridgeBodies[i];
-    const home = bridgeHomeCenters[i];
-    if (!body || !home) continue;
-    Matter.Body.setPosition(body, { x: home.x, y: home.y });
-    Matter.Body.setVelocity(body, { x: 0, y: 0 });
-    Matter.Body.setAngularVelocity(body, 0);
-  }
+function selectableWorld(): SelectableWorld {
+  return sim;
 }
 
-function respawnAllPlayers() {
-  resetOnDeath();
-  spawnPoint = ensureSpawnEnt(spawnPoint, levelConfig, snap);
-  for (let slot = 0; slot < playerSlots.length; slot += 1) {
-    const player = playerSlots[slot];
-    if (!player) continue;
-    const spawn = getSpawnForSlotEnt(slot, spawnPoint, canvas, snap);
-    Matter.Body.setPosition(player.body, { x: spawn.x, y: spawn.y });
-    Matter.Body.setVelocity(player.body, { x: 0, y: 0 });
-    Matter.Body.setAngularVelocity(player.body, 0);
-  }
+function setSelection(next: EditorSelection | null) {
+  commitSelectionEdit();
+  const same = next === selection || (next && selection && next.kind === selection.kind && next.id === selection.id);
+  selection = next;
+  if (same) return;
+  for (const listener of selectionListeners) listener();
 }
 
+// Undo/redo reload the level in the same order, so the registry hands out the
+// same ids and a selection still points at the same entity afterwards. Listeners are told either way so the
+// inspector picks up the restored values.
+function restoreSelection(kept: EditorSelection | null) {
+  selection = kept && getSelectionRect(kept, selectableWorld()) ? kept : null;
+  for (const listener of selectionListeners) listener();
+}
 
-function clearLevelData() {
-  levelConfig = { width: snap(CAMERA_SIZE.width), height: snap(CAMERA_SIZE.height) };
-  rebuildBounds();
-  for (const body of platformBodies) {
-    Composite.remove(engine.world, body);
-  }
-  platformBodies = [];
-  levelRects = [];
-  for (const body of blockBodies) {
-    Composite.remove(engine.world, body);
-  }
-  blockBodies = [];
-  blockDefs = [];
-  blockPusherCounts = [];
-  if (keyBody) {
-    Composite.remove(engine.world, keyBody);
+function getInspectorTarget(): InspectorTarget | null {
+  if (!selection) return null;
+  if (selection.kind === 'bridge') {
+    const def = sim.entities.get('bridge', selection.id)?.def;
+    if (!def) return null;
+    const path = def.path ? { ...def.path, waypoints: def.path.waypoints.map(w => ({ ...w })) } : undefined;
+    return { kind: 'bridge', def: { ...def, ...(path ? { path } : {}) } };
   }
-  keyBody = null;
-  keyPoint = null;
-  keyCarrierSlot = null;
-  doorUnlocked = false;
-  for (const body of spikeBodies) {
-    Composite.remove(engine.world, body);
+  if (selection.kind === 'block') {
+    const def = sim.entities.get('block', selection.id)?.def;
+    return def ? { kind: 'block', def: { ...def } } : null;
   }
-  spikeBodies = [];
-  spikeRects = [];
-  for (const body of bridgeBodies) {
-    Composite.remove(engine.world, body);
+  if (selection.kind === 'button') {
+    const def = sim.entities.get('button', selection.id)?.def;
+    return def
+      ? { kind: 'button', def: { ...def, targets: def.targets.map(t => ({ ...t })) }, available: sim.listLinkTargets() }
+      : null;
   }
-  bridgeBodies = [];
-  bridgeDefs = [];
-  bridgeActivated = [];
-  bridgeLatched = [];
-  bridgeHomeCenters = [];
-  bridgeCarryX = [];
-  for (const body of buttonBodies) {
-    Composite.remove(engine.world, body);
+  if (selection.kind === 'gate') {
+    const def = sim.entities.get('gate', selection.id)?.def;
+    return def
+      ? { kind: 'gate', def: { ...def, targets: def.targets.map(t => ({ ...t })) }, available: sim.listLinkTargets(def.id) }
+      : null;
   }
-  buttonBodies = [];
-  buttonDefs = [];
-  buttonPressed = [];
-  buttonLinkingId = null;
-  if (doorBody) {
-    Composite.remove(engine.world, doorBody);
-  }
-  doorBody = null;
-  doorRect = null;
-  spawnPoint = null;
-  levelCompleted = false;
-  completionFrames = 0;
-  nextEntityId = 1;
-  const setDoorRectLocal = (rect: LevelRect) => {
-    doorRect = rect;
-    doorBody = setDoorEnt(rect, engine);
-  };
-  ensureDoorEnt(doorBody, levelConfig, snap, setDoorRectLocal);
-  spawnPoint = ensureSpawnEnt(spawnPoint, levelConfig, snap);
-  persistLevel();
-}
-
-function loadLevelFromStorage() {
-  const json = localStorage.getItem(LEVEL_STORAGE_KEY);
-  if (!json) return;
-  loadLevelFromJson(json);
+  return null;
 }
 
-function loadLevelFromJson(json: string) {
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(json);
-  } catch {
-    return;
-  }
 
-  const next = parseLevelState(parsed);
-  if (!next) return;
+function getLinkTargetRect(target: LinkTarget): LevelRect | null {
+  if (target.kind === 'door') return sim.doorRect;
+  const defs: Array<LevelRect & { id: number }> = sim.entities.defs(target.kind);
+  return defs.find(d => d.id === target.id) ?? null;
+}
 
-  levelConfig = {
-    width: snap(next.config.width),
-    height: snap(next.config.height)
-  };
-  rebuildBounds();
+function applySelectionRectLocal(rect: LevelRect) {
+  if (!selection) return;
+  const world = selectableWorld();
+  applySelectionRectEditor(selection, rect, world);
+}
 
-  for (const body of platformBodies) {
-    Composite.remove(engine.world, body);
-  }
-  platformBodies = [];
-  levelRects = [];
-  for (const body of blockBodies) {
-    Composite.remove(engine.world, body);
-  }
-  blockBodies = [];
-  blockDefs = [];
-  blockPusherCounts = [];
-  if (doorBody) {
-    Composite.remove(engine.world, doorBody);
-  }
-  doorBody = null;
-  doorRect = null;
-  for (const body of spikeBodies) {
-    Composite.remove(engine.world, body);
-  }
-  spikeBodies = [];
-  spikeRects = [];
-  for (const body of bridgeBodies) {
-    Composite.remove(engine.world, body);
-  }
-  bridgeBodies = [];
-  bridgeDefs = [];
-  bridgeActivated = [];
-  bridgeLatched = [];
-  bridgeHomeCenters = [];
-  bridgeCarryX = [];
-  for (const body of buttonBodies) {
-    Composite.remove(engine.world, body);
-  }
-  buttonBodies = [];
-  buttonDefs = [];
-  buttonPressed = [];
+function resetLevelWorld() {
+  setSelection(null);
+  selectionDrag = null;
   buttonLinkingId = null;
-  spawnPoint = null;
-  if (keyBody) {
-    Composite.remove(engine.world, keyBody);
-  }
-  keyBody = null;
-  keyPoint = null;
-  keyCarrierSlot = null;
-  doorUnlocked = false;
-  levelCompleted = false;
-  completionFrames = 0;
-
-  for (const r of next.platforms) {
-    const body = Bodies.rectangle(r.x + r.w / 2, r.y + r.h / 2, r.w, r.h, {
-      isStatic: true,
-      label: 'platform'
-    });
-    levelRects.push(r);
-    platformBodies.push(body);
-    Composite.add(engine.world, body);
-  }
+  gateLinkingId = null;
+  sim.clearLevel();
+}
 
-  if (next.door) {
-    const d = next.door;
-    doorRect = d;
-    doorBody = Bodies.rectangle(d.x + d.w / 2, d.y + d.h / 2, d.w, d.h, {
-      isStatic: true,
-      isSensor: true,
-      label: 'door'
-    });
-    Composite.add(engine.world, doorBody);
-  }
+function setLevelConfig(config: LevelConfig) {
+  sim.setLevelConfig(config);
+  clampCamera();
+}
 
-  if (next.spawn) {
-    spawnPoint = { x: snap(next.spawn.x), y: snap(next.spawn.y) };
-  }
+function clearLevelData() {
+  setLevelConfig({ width: snap(CAMERA_SIZE.width), height: snap(CAMERA_SIZE.height) });
+  resetLevelWorld();
+  sim.ensureLevelDefaults();
+  persistLevel();
+}
 
-  if (next.key) {
-    keyPoint = { x: snap(next.key.x), y: snap(next.key.y) };
-    keyBody = Bodies.circle(keyPoint.x, keyPoint.y, 12, { isStatic: true, isSensor: true, label: 'key' });
-    Composite.add(engine.world, keyBody);
-  }
+function openLevelById(id: string): boolean {
+  if (!getLibraryEntry(id)) return false;
+  // Leaving a pack: its throwaway history must not replace the library level's.
+  if (activePack) activePack = null;
+  else if (currentLevelId) levelHistories.set(currentLevelId, { undo: undoStack, redo: redoStack });
+  currentLevelId = id;
+  setLastOpenedLevelId(id);
 
-  for (const b of next.blocks) {
-    const rect: LevelRect = { x: b.x, y: b.y, w: b.w, h: b.h };
-    const clamped = typeof b.required === 'number' ? Math.max(1, Math.min(4, Math.round(b.required))) : undefined;
-    const allowedPlayer = typeof b.allowedPlayer === 'number' ? Math.max(0, Math.min(3, Math.round(b.allowedPlayer))) : undefined;
-    const body = Bodies.rectangle(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h, {
-      label: 'block',
-      friction: 0,
-      frictionStatic: 0,
-      frictionAir: 0.02,
-      inertia: Infinity
-    });
-    const defRect: LevelRect & { required?: number; allowedPlayer?: number } = { ...rect };
-    if (allowedPlayer !== undefined) defRect.allowedPlayer = allowedPlayer;
-    else defRect.required = clamped ?? 2;
-    blockDefs.push(defRect);
-    blockBodies.push(body);
-    blockPusherCounts.push(0);
-    Composite.add(engine.world, body);
-  }
+  suppressHistory = true;
+  replaceSimulation({ width: snap(CAMERA_SIZE.width), height: snap(CAMERA_SIZE.height) });
+  resetLevelWorld();
+  const loaded = loadLevelFromStorage();
+  sim.ensureLevelDefaults();
+  suppressHistory = false;
 
-  for (const r of next.spikes) {
-    const body = Bodies.rectangle(r.x + r.w / 2, r.y + r.h / 2, r.w, r.h, {
-      isStatic: true,
-      isSensor: true,
-      label: 'spike'
-    });
-    spikeRects.push(r);
-    spikeBodies.push(body);
-    Composite.add(engine.world, body);
-  }
+  const history = levelHistories.get(id);
+  undoStack = history?.undo ?? [];
+  redoStack = history?.redo ?? [];
+  // Don't overwrite a stored level that failed to parse with the blank fallback.
+  if (loaded) persistLevel();
+  else pushHistorySnapshot();
+  beginRun();
+  return true;
+}
 
-  for (const br of next.bridges) {
-    const rect: LevelRect = { x: br.x, y: br.y, w: br.w, h: br.h };
-    const id = Math.round(br.id);
-    const dx = Math.round(br.dx);
-    const dy = Math.round(br.dy);
-    const distance = snap(Math.max(0, Math.round(br.distance)));
-    const requiredPlayers = br.requiredPlayers;
-    const def: BridgeDef = {
-      ...rect,
-      id,
-      dx,
-      dy,
-      distance,
-      permanent: Boolean(br.permanent),
-      ...(requiredPlayers ? { requiredPlayers } : {})
-    };
-    const body = Bodies.rectangle(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h, {
-      isStatic: true,
-      label: 'bridge'
-    });
-    bridgeDefs.push(def);
-    bridgeBodies.push(body);
-    bridgeActivated.push(false);
-    bridgeLatched.push(false);
-    bridgeHomeCenters.push({ x: body.position.x, y: body.position.y });
-    bridgeCarryX.push(0);
-    Composite.add(engine.world, body);
-  }
+// Back to the library level that was open before the pack, or the first one.
+function leavePack() {
+  const previous = currentLevelId && getLibraryEntry(currentLevelId) ? currentLevelId : null;
+  packFinished = false;
+  openLevelById(previous ?? listLibraryLevels()[0]?.id ?? createLibraryLevel('Untitled level', null).id);
+}
 
-  for (const btn of next.buttons) {
-    const rect: LevelRect = { x: btn.x, y: btn.y, w: btn.w, h: btn.h };
-    const id = Math.round(btn.id);
-    const targetBridgeId =
-      btn.targetBridgeId === null || btn.targetBridgeId === undefined ? null : Math.round(btn.targetBridgeId);
-    const def: ButtonDef = { ...rect, id, targetBridgeId };
-    const body = Bodies.rectangle(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h, {
-      isStatic: true,
-      isSensor: true,
-      label: 'button'
-    });
-    buttonDefs.push(def);
-    buttonBodies.push(body);
-    buttonPressed.push(false);
-    Composite.add(engine.world, body);
+function startPackById(id: string, fromStart: boolean): boolean {
+  const pack = readStoredPack(id, sim.levelConfig);
+  if (!pack) return false;
+  if (!activePack && currentLevelId) levelHistories.set(currentLevelId, { undo: undoStack, redo: redoStack });
+  activePack = pack;
+  packFinished = false;
+  const progress = readPackProgress(id, pack.levels.length);
+  if (fromStart) {
+    progress.currentIndex = 0;
+    writePackProgress(id, progress);
   }
+  loadPackLevel(progress.currentIndex);
+  return true;
+}
 
-  nextEntityId = 1;
-  for (const br of bridgeDefs) nextEntityId = Math.max(nextEntityId, br.id + 1);
-  for (const btn of buttonDefs) nextEntityId = Math.max(nextEntityId, btn.id + 1);
+function loadPackLevel(index: number) {
+  if (!activePack) return;
+  const level = activePack.levels[index];
+  if (!level) return;
+  packLevelIndex = index;
+  suppressHistory = true;
+  replaceSimulation(sim.levelConfig);
+  loadLevelFromJson(JSON.stringify(level));
+  suppressHistory = false;
+  undoStack = [];
+  redoStack = [];
+  pushHistorySnapshot();
+  beginRun();
+}
 
-  ensureDoorEnt(doorBody, levelConfig, snap, setDoorRectLocal);
-  spawnPoint = ensureSpawnEnt(spawnPoint, levelConfig, snap);
-  keyBody = ensureKeyEnt(engine, keyPoint, keyBody);
-  persistLevel();
+// Each level start gets a fresh simulation, so a run recorded from there replays
+// exactly from the level JSON alone.
+function replaceSimulation(config: LevelConfig) {
+  sim.destroy();
+  sim = new Simulation(config, gameEvents);
+  bestGhost = null;
+  playViews = [];
+  runResult = null;
+  resultsDismissed = false;
+  clampCamera();
 }
 
-function buildLevelState(): LevelState {
-  return {
-    config: levelConfig,
-    platforms: levelRects,
-    door: doorRect,
-    spawn: spawnPoint,
-    key: keyPoint,
-    blocks: blockDefs,
-    bridges: bridgeDefs,
-    buttons: buttonDefs,
-    spikes: spikeRects
-  };
+function beginRun() {
+  if (activePack) runKey = packGhostKey(activePack.meta.id, packLevelIndex);
+  else runKey = currentLevelId ? libraryGhostKey(currentLevelId) : null;
+  sim.beginRun({ ghost: runKey !== null });
+  bestGhost = runKey && sim.run ? readGhost(runKey, sim.run.levelHash) : null;
+  runResult = null;
+  resultsDismissed = false;
 }
 
-function pushHistorySnapshot() {
-  if (suppressHistory) return;
-  const json = JSON.stringify(buildLevelState());
-  const last = undoStack.length > 0 ? undoStack[undoStack.length - 1] : null;
-  if (last === json) return;
-  undoStack.push(json);
-  redoStack = [];
-  if (undoStack.length > 250) undoStack = undoStack.slice(-250);
+// A run that was edited along the way still gets its results, but can't set a
+// best time or ghost for the level it started on.
+function finishRun() {
+  const run = sim.run;
+  const frames = sim.elapsedFrames();
+  const best = runKey && run ? readBestTime(runKey, run.levelHash) : null;
+  const newRecord = runKey !== null && run !== null && !run.stale && (best === null || frames < best);
+  if (runKey && run && newRecord) writeBestTime(runKey, run.levelHash, frames);
+  runResult = { frames, bestFrames: newRecord ? frames : best, newRecord };
+  if (runKey && run?.finishedGhost) storeFinishedGhost(runKey, run.levelHash, run.finishedGhost);
+  if (activePack) markPackLevelCompleted();
 }
 
-function persistLevel() {
-  const state = buildLevelState();
-  localStorage.setItem(LEVEL_STORAGE_KEY, JSON.stringify(state));
-  pushHistorySnapshot();
+function resultsVisible(): boolean {
+  return runResult !== null && !resultsDismissed && !editorEnabled && !sim.playback;
 }
 
-function parseLevelState(input: unknown): LevelState | null {
-  const parseRect = (value: unknown): LevelRect | null => {
-    if (!value || typeof value !== 'object') return null;
-    const r = value as Partial<LevelRect>;
-    if (typeof r.x !== 'number' || typeof r.y !== 'number' || typeof r.w !== 'number' || typeof r.h !== 'number') return null;
-    if (r.w <= 0 || r.h <= 0) return null;
-    return { x: r.x, y: r.y, w: r.w, h: r.h };
-  };
+function resultsPromptsReady(): boolean {
+  const finish = sim.stats.finishFrame;
+  return resultsVisible() && finish !== null && sim.frame - finish >= RESULTS_INPUT_DELAY_FRAMES;
+}
 
-  if (Array.isArray(input)) {
-    const platforms: LevelRect[] = [];
-    for (const item of input) {
-      const rect = parseRect(item);
-      if (!rect) return null;
-      platforms.push(rect);
-    }
-    return {
-      config: levelConfig,
-      platforms,
-      door: null,
-      spawn: null,
-      key: null,
-      blocks: [],
-      bridges: [],
-      buttons: [],
-      spikes: []
-    };
+function continueAfterResults() {
+  if (activePack && !packFinished) {
+    advancePack();
+    if (!packFinished) return;
   }
+  resultsDismissed = true;
+}
 
-  if (!input || typeof input !== 'object') return null;
-  const obj = input as {
-    config?: unknown;
-    platforms?: unknown;
-    door?: unknown;
-    spawn?: unknown;
-    key?: unknown;
-    blocks?: unknown;
-    bridges?: unknown;
-    buttons?: unknown;
-    spikes?: unknown;
+function retryLevel() {
+  if (activePack) loadPackLevel(packLevelIndex);
+  else if (currentLevelId) openLevelById(currentLevelId);
+}
+
+function buildResultsView(): ResultsView | null {
+  if (!runResult) return null;
+  const players: ResultsView['players'] = [];
+  sim.playerSlots.forEach((player, slot) => {
+    const jumps = sim.stats.jumps[slot];
+    const keys = sim.stats.keysCarried[slot];
+    if (!player && jumps === 0 && keys === 0) return;
+    players.push({ slot, color: playerColor(slot), jumps, keys });
+  });
+  const isLast = activePack ? packLevelIndex >= activePack.levels.length - 1 : false;
+  return {
+    ...runResult,
+    deaths: sim.stats.deaths,
+    players,
+    subtitle: activePack ? `${activePack.meta.name} ${packLevelIndex + 1}/${activePack.levels.length}` : null,
+    continueLabel: !activePack ? 'Keep playing' : packFinished || isLast ? 'Finish pack' : 'Next level',
+    promptsReady: resultsPromptsReady()
   };
-  if (!Array.isArray(obj.platforms)) return null;
-
-  let config: LevelConfig = levelConfig;
-  if (obj.config !== null && obj.config !== undefined) {
-    if (!obj.config || typeof obj.config !== 'object') return null;
-    const c = obj.config as { width?: unknown; height?: unknown };
-    if (typeof c.width !== 'number' || typeof c.height !== 'number') return null;
-    if (c.width <= 0 || c.height <= 0) return null;
-    config = { width: c.width, height: c.height };
-  }
+}
 
-  const platforms: LevelRect[] = [];
-  for (const item of obj.platforms) {
-    const rect = parseRect(item);
-    if (!rect) return null;
-    platforms.push(rect);
-  }
+// A finished run's samples become the level's ghost when it was faster than the stored one.
+function storeFinishedGhost(key: string, levelHash: string, frames: GhostRun['frames']) {
+  if (bestGhost && bestGhost.frames.length <= frames.length) return;
+  bestGhost = { levelHash, frames };
+  writeGhost(key, bestGhost);
+}
 
-  const door = obj.door === null || obj.door === undefined ? null : parseRect(obj.door);
-  if (obj.door !== null && obj.door !== undefined && !door) return null;
+function startReplay(replay: Replay) {
+  editorEnabled = false;
+  dragStart = null;
+  dragCurrent = null;
+  panLast = null;
+  editorPanKeys.clear();
+  replaceSimulation(replay.level.config);
+  resetLevelWorld();
+  sim.loadLevel(replay.level);
+  clampCamera();
+  sim.beginPlayback(replay);
+}
 
-  let spawn: { x: number; y: number } | null = null;
-  if (obj.spawn !== null && obj.spawn !== undefined) {
-    if (!obj.spawn || typeof obj.spawn !== 'object') return null;
-    const s = obj.spawn as { x?: unknown; y?: unknown };
-    if (typeof s.x !== 'number' || typeof s.y !== 'number') return null;
-    spawn = { x: s.x, y: s.y };
-  }
+function stopReplay() {
+  if (!sim.playback) return;
+  sim.playback = null;
+  if (activePack) loadPackLevel(packLevelIndex);
+  else if (currentLevelId) openLevelById(currentLevelId);
+}
 
-  let key: { x: number; y: number } | null = null;
-  if (obj.key !== null && obj.key !== undefined) {
-    if (!obj.key || typeof obj.key !== 'object') return null;
-    const k = obj.key as { x?: unknown; y?: unknown };
-    if (typeof k.x !== 'number' || typeof k.y !== 'number') return null;
-    key = { x: k.x, y: k.y };
-  }
+function markPackLevelCompleted() {
+  if (!activePack) return;
+  const progress = readPackProgress(activePack.meta.id, activePack.levels.length);
+  if (progress.completed.includes(packLevelIndex)) return;
+  progress.completed.push(packLevelIndex);
+  writePackProgress(activePack.meta.id, progress);
+}
 
-  const blocks: Array<LevelRect & { required?: number; allowedPlayer?: number }> = [];
-  if (obj.blocks !== null && obj.blocks !== undefined) {
-    if (!Array.isArray(obj.blocks)) return null;
-    for (const item of obj.blocks) {
-      const rect = parseRect(item);
-      if (!rect) return null;
-      if (!item || typeof item !== 'object') return null;
-      const b = item as { required?: unknown; allowedPlayer?: unknown };
-      let pushed = false;
-      if (typeof b.allowedPlayer === 'number') {
-        const allowedPlayer = Math.max(0, Math.min(3, Math.round(b.allowedPlayer)));
-        blocks.push({ ...rect, allowedPlayer });
-        pushed = true;
-      }
-      if (typeof b.required === 'number') {
-        const required = Math.max(1, Math.min(4, Math.round(b.required)));
-        blocks.push({ ...rect, required });
-        pushed = true;
-      }
-      if (!pushed) {
-        blocks.push({ ...rect, required: 2 });
-      }
-    }
+function advancePack() {
+  if (!activePack) return;
+  markPackLevelCompleted();
+  const id = activePack.meta.id;
+  const count = activePack.levels.length;
+  const progress = readPackProgress(id, count);
+  const next = packLevelIndex + 1;
+  if (next >= count) {
+    packFinished = true;
+    progress.currentIndex = 0;
+    writePackProgress(id, progress);
+    return;
   }
+  progress.currentIndex = next;
+  writePackProgress(id, progress);
+  loadPackLevel(next);
+}
 
-  const bridges: BridgeDef[] = [];
-  if (obj.bridges !== null && obj.bridges !== undefined) {
-    if (!Array.isArray(obj.bridges)) return null;
-    for (const item of obj.bridges) {
-      const rect = parseRect(item);
-      if (!rect) return null;
-      if (!item || typeof item !== 'object') return null;
-      const b = item as {
-        id?: unknown;
-        dx?: unknown;
-        dy?: unknown;
-        distance?: unknown;
-        permanent?: unknown;
-        requiredPlayers?: unknown;
-      };
-      if (typeof b.id !== 'number' || typeof b.dx !== 'number' || typeof b.dy !== 'number' || typeof b.distance !== 'number') {
-        return null;
-      }
-      const id = Math.round(b.id);
-      const dx = Math.round(b.dx);
-      const dy = Math.round(b.dy);
-      if (Math.abs(dx) + Math.abs(dy) !== 1) return null;
-      const distance = Math.max(0, Math.round(b.distance));
-      const permanent = b.permanent === undefined ? false : Boolean(b.permanent);
-      let requiredPlayers: number | undefined;
-      if (typeof b.requiredPlayers === 'number') {
-        requiredPlayers = Math.max(1, Math.min(4, Math.round(b.requiredPlayers)));
-      }
-      bridges.push({ ...rect, id, dx, dy, distance, permanent, ...(requiredPlayers ? { requiredPlayers } : {}) });
-    }
-  }
+function loadLevelFromStorage(): boolean {
+  if (!currentLevelId) return false;
+  const json = readLibraryLevel(currentLevelId);
+  if (!json) return true;
+  const result = loadLevelFromJson(json);
+  if (!result.level) console.warn('Stored level could not be loaded', result.issues);
+  return Boolean(result.level);
+}
 
-  const buttons: ButtonDef[] = [];
-  if (obj.buttons !== null && obj.buttons !== undefined) {
-    if (!Array.isArray(obj.buttons)) return null;
-    for (const item of obj.buttons) {
-      const rect = parseRect(item);
-      if (!rect) return null;
-      if (!item || typeof item !== 'object') return null;
-      const b = item as { id?: unknown; targetBridgeId?: unknown };
-      if (typeof b.id !== 'number') return null;
-      const id = Math.round(b.id);
-      let targetBridgeId: number | null = null;
-      if (b.targetBridgeId !== null && b.targetBridgeId !== undefined) {
-        if (typeof b.targetBridgeId !== 'number') return null;
-        targetBridgeId = Math.round(b.targetBridgeId);
-      }
-      buttons.push({ ...rect, id, targetBridgeId });
-    }
-  }
+function loadLevelFromJson(json: string): LevelParseResult {
+  const result = parseLevelJson(json, sim.levelConfig);
+  if (!result.level) return result;
+  resetLevelWorld();
+  sim.loadLevel(result.level);
+  clampCamera();
+  persistLevel();
+  return result;
+}
 
-  const spikes: LevelRect[] = [];
-  if (obj.spikes !== null && obj.spikes !== undefined) {
-    if (!Array.isArray(obj.spikes)) return null;
-    for (const item of obj.spikes) {
-      const rect = parseRect(item);
-      if (!rect) return null;
-      spikes.push(rect);
-    }
-  }
+function pushHistorySnapshot() {
+  if (suppressHistory) return;
+  const json = JSON.stringify(sim.buildLevelState());
+  const last = undoStack.length > 0 ? undoStack[undoStack.length - 1] : null;
+  if (last === json) return;
+  undoStack.push(json);
+  redoStack = [];
+  if (undoStack.length > 250) undoStack = undoStack.slice(-250);
+}
 
-  return { config, platforms, door, spawn, key, blocks, bridges, buttons, spikes };
+// Inspector edits are recorded right away, or held back while a field is being typed in.
+function applySelectionEdit<T>(def: T | null, commit: boolean): T | null {
+  if (!def) return null;
+  if (commit) persistLevel();
+  else selectionEditPending = true;
+  return def;
+}
+
+function commitSelectionEdit() {
+  if (selectionEditPending) persistLevel();
+}
+
+function persistLevel() {
+  selectionEditPending = false;
+  sim.markRunStale();
+  const state = sim.buildLevelState();
+  if (bestGhost && hashLevel(state) !== bestGhost.levelHash) bestGhost = null;
+  if (currentLevelId && !activePack) writeLibraryLevel(currentLevelId, JSON.stringify(state));
+  pushHistorySnapshot();
 }
@@ -1,9 +1,8 @@
 import Matter from 'matter-js';
+import { drawThemeSprite, type Theme } from './render/theme';
 
 export class Player {
   public body: Matter.Body;
-  public gamepadIndex: number;
-  public gamepadId: string;
   public moveAxisX = 0;
   private color: string;
   private jumpPower = 12;
@@ -16,10 +15,11 @@ export class Player {
   private coyoteTime = 0;
   private readonly COYOTE_TIME_MAX = 8; // frames
   private readonly EXTRA_GRAVITY = 0.75;
+  private framesSinceJump = Infinity;
+  // A jump re-triggered while still leaving the ground is the same takeoff.
+  private readonly JUMP_REPEAT_FRAMES = 5;
 
-  constructor(gamepadIndex: number, gamepadId: string, x: number, y: number, color: string) {
-    this.gamepadIndex = gamepadIndex;
-    this.gamepadId = gamepadId;
+  constructor(x: number, y: number, color: string) {
     this.color = color;
 
     this.body = Matter.Bodies.rectangle(x, y, 40, 40, {
@@ -32,7 +32,8 @@ export class Player {
     });
   }
 
-  handleInput(gp: { axes: ReadonlyArray<number>; buttons: ReadonlyArray<{ pressed: boolean }> }) {
+  // Returns true on the step a new jump starts.
+  handleInput(gp: { axes: ReadonlyArray<number>; buttons: ReadonlyArray<{ pressed: boolean }> }): boolean {
     // Movement (Left Stick X)
     const moveX = gp.axes[0];
     this.moveAxisX = moveX;
@@ -49,6 +50,8 @@ export class Player {
       this.jumpBuffer = this.JUMP_BUFFER_MAX;
     }
 
+    let jumped = false;
+    this.framesSinceJump += 1;
     if (this.jumpBuffer > 0 && (this.canJump || this.coyoteTime > 0)) {
       Matter.Body.setVelocity(this.body, { 
         x: this.body.velocity.x, 
@@ -58,6 +61,8 @@ export class Player {
       this.coyoteTime = 0;
       this.isJumping = true;
       this.jumpBuffer = 0;
+      jumped = this.framesSinceJump > this.JUMP_REPEAT_FRAMES;
+      this.framesSinceJump = 0;
     }
 
     if (!jumpButton.pressed) {
@@ -73,6 +78,7 @@ export class Player {
     if (this.body.velocity.y > 0) {
       Matter.Body.applyForce(this.body, this.body.position, { x: 0, y: 0.0005 });
     }
+    return jumped;
   }
 
   
@@ -91,18 +97,21 @@ export class Player {
     this.pushSlowdown = pushSlowdown;
   }
 
-  draw(ctx: CanvasRenderingContext2D) {
+  draw(ctx: CanvasRenderingContext2D, theme: Theme, color: string = this.color) {
     const { x, y } = this.body.position;
     const angle = this.body.angle;
 
     ctx.save();
     ctx.translate(Math.round(x), Math.round(y));
     ctx.rotate(angle);
-    ctx.fillStyle = this.color;
+    ctx.fillStyle = color;
     ctx.fillRect(-20, -20, 40, 40);
-    ctx.strokeStyle = '#fff';
-    ctx.lineWidth = 2;
-    ctx.strokeRect(-20, -20, 40, 40);
+    // A player sprite is an overlay (face, outline) over the slot colour.
+    if (!drawThemeSprite(ctx, theme, 'player', -20, -20, 40, 40)) {
+      ctx.strokeStyle = theme.player.outline;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(-20, -20, 40, 40);
+    }
     ctx.restore();
   }
 }
@@ -0,0 +1,782 @@
+import Matter from 'matter-js';
+import { updateBlocks as sysUpdateBlocks, initBlockCarrying } from './systems/blocks';
+import { updateButtons as sysUpdateButtons } from './systems/buttons';
+import { createBridgePathState, updateBridges as sysUpdateBridges, type BridgePathState } from './systems/bridges';
+import { updateDoor as sysUpdateDoor } from './systems/door';
+import { updateKey as sysUpdateKey } from './systems/key';
+import { updateSpikes as sysUpdateSpikes } from './systems/spikes';
+import { createGateRuntime, updateLogic as sysUpdateLogic, type GateRuntime } from './systems/logic';
+import { updateCheckpoints as sysUpdateCheckpoints } from './systems/checkpoints';
+import { initPlayerCarrying } from './systems/playerCarrying';
+import { normalizeBridgePath } from './entities/bridge';
+import { DEFAULT_BLOCK_REQUIRED } from './entities/block';
+import { DEFAULT_GATE_DELAY_FRAMES, GATE_KINDS } from './entities/gate';
+import { isDoorLinked, linkTargetKey } from './entities/links';
+import { EntityRegistry } from './entities/registry';
+import { getEntityPlugin, listEntityPlugins } from './entities/plugin';
+import { ensureSpawn as ensureSpawnEnt, getSpawnForSlot as getSpawnForSlotEnt } from './entities/spawn';
+import { ensureKey as ensureKeyEnt, createKeyBody, setKeyPoint as setKeyPointEnt } from './entities/key';
+import { setDoor as setDoorEnt, ensureDoor as ensureDoorEnt } from './entities/door';
+import { LEVEL_VERSION } from './level/migrations';
+import { appendReplayFrame, createReplay, createReplayCursor, nextReplayFrame, type Replay, type ReplayCursor } from './level/replay';
+import { hashLevel, sampleGhostFrame, type GhostFrame } from './level/ghost';
+import type { ThemeId } from './render/theme';
+import { createEventBus, type EventBus } from './events';
+import { Player } from './Player';
+import type {
+  BlockDef,
+  BlockPatch,
+  BridgeDef,
+  BridgePatch,
+  ButtonDef,
+  ButtonPatch,
+  CheckpointDef,
+  GateDef,
+  GatePatch,
+  LevelConfig,
+  LevelRect,
+  LevelState,
+  LinkTarget
+} from './Game';
+
+const { Engine, Bodies, Composite } = Matter;
+
+export const GRID_SIZE = 20;
+export const FIXED_STEP_MS = 1000 / 60;
+export const PLAYER_COLORS = ['#ff4d4d', '#4dff4d', '#4d4dff', '#ffff4d'];
+
+export function snap(value: number): number {
+  return Math.round(value / GRID_SIZE) * GRID_SIZE;
+}
+
+export type SlotInput = { axisX: number; jump: boolean };
+// One entry per player slot. A slot going from null to an input joins a player
+// there, and back to null makes them leave.
+export type InputFrame = Array<SlotInput | null>;
+
+// Puzzle state captured when the team reaches a checkpoint, restored on death.
+// Entities are matched up again by registry id.
+type PuzzleSnapshot = {
+  doorUnlocked: boolean;
+  keyPosition: { x: number; y: number } | null;
+  blocks: Array<{ id: number; x: number; y: number }>;
+  bridges: Array<{ id: number; x: number; y: number; latched: boolean; path: BridgePathState }>;
+  gates: Array<{ id: number; state: GateRuntime }>;
+};
+
+// Counters for the current run. Frames are simulation frames; finishFrame is
+// the first frame the level counted as completed.
+export type RunStats = {
+  startFrame: number | null;
+  finishFrame: number | null;
+  deaths: number;
+  jumps: number[];
+  keysCarried: number[];
+};
+
+export type SimulationSnapshot = {
+  frame: number;
+  players: Array<{ x: number; y: number; vx: number; vy: number } | null>;
+  keyCarrierSlot: number | null;
+  levelCompleted: boolean;
+  activeCheckpointId: number | null;
+  activeTargets: string[];
+  puzzle: PuzzleSnapshot;
+};
+
+// The run since the level started. Edits make it stale: the recording no longer
+// replays from its level and the run can't set a best time or ghost.
+export type LevelRun = {
+  levelHash: string;
+  recording: Replay | null;
+  // Samples from the first join on, so their count matches elapsedFrames().
+  ghostFrames: GhostFrame[] | null;
+  // The samples of a finished run, until the caller has stored them.
+  finishedGhost: GhostFrame[] | null;
+  stale: boolean;
+};
+
+function filterLinkTargets(targets: LinkTarget[], available: LinkTarget[]): LinkTarget[] {
+  const allowed = new Set(available.map(linkTargetKey));
+  const seen = new Set<string>();
+  return targets.filter(t => {
+    const key = linkTargetKey(t);
+    if (!allowed.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function createRunStats(startFrame: number | null): RunStats {
+  return { startFrame, finishFrame: null, deaths: 0, jumps: [0, 0, 0, 0], keysCarried: [0, 0, 0, 0] };
+}
+
+// Owns the Matter engine and every entity in the level, advances them one fixed
+// step at a time and keeps the bookkeeping of the run in progress. Nothing in
+// here touches the DOM, so it runs in Node too.
+export class Simulation {
+  public readonly engine: Matter.Engine;
+  public readonly gridSize = GRID_SIZE;
+  public frame = 0;
+  public playerSlots: Array<Player | null> = [null, null, null, null];
+  public levelConfig: LevelConfig;
+  public readonly entities: EntityRegistry;
+  public doorRect: LevelRect | null = null;
+  public doorBody: Matter.Body | null = null;
+  public spawnPoint: { x: number; y: number } | null = null;
+  public levelTheme: ThemeId | null = null;
+  public keyPoint: { x: number; y: number } | null = null;
+  public keyBody: Matter.Body | null = null;
+  public keyCarrierSlot: number | null = null;
+  public doorUnlocked = false;
+  public activeTargets = new Set<string>();
+  public activeCheckpoint: { def: CheckpointDef; snapshot: PuzzleSnapshot } | null = null;
+  // Next level-file id for a new bridge, button, spike, gate or checkpoint.
+  public nextEntityId = 1;
+  public levelCompleted = false;
+  public completionFrames = 0;
+  public stats: RunStats = createRunStats(null);
+  public run: LevelRun | null = null;
+  public playback: { replay: Replay; cursor: ReplayCursor } | null = null;
+  public readonly events: EventBus;
+  // Level entries for entity types without a loaded plugin, saved back unchanged.
+  private foreignEntities: Record<string, unknown[]> = {};
+  private boundaryBodies: Matter.Body[] = [];
+  private cleanups: Array<() => void> = [];
+
+  // Pass a bus in to keep its listeners across simulations.
+  constructor(levelConfig: LevelConfig, events: EventBus = createEventBus()) {
+    this.events = events;
+    this.engine = Engine.create();
+    this.entities = new EntityRegistry(this.engine);
+    this.levelConfig = levelConfig;
+    this.rebuildBounds();
+    this.cleanups.push(
+      initPlayerCarrying(this.engine, () => this.playerSlots),
+      initBlockCarrying(this.engine, () => this.entities.bodies('block'))
+    );
+  }
+
+  destroy() {
+    for (const cleanup of this.cleanups) cleanup();
+    this.cleanups = [];
+    Engine.clear(this.engine);
+    this.playerSlots = [null, null, null, null];
+  }
+
+  // Starts recording a run of the level as it is now. Ghost samples are only
+  // kept when the caller has somewhere to store them.
+  beginRun(options: { ghost: boolean }) {
+    this.respawnAllPlayers();
+    const level = this.buildLevelState();
+    this.run = {
+      levelHash: hashLevel(level),
+      recording: createReplay(level),
+      ghostFrames: options.ghost ? [] : null,
+      finishedGhost: null,
+      stale: false
+    };
+  }
+
+  // Called after any edit to the level, which also outdates the checkpoint's
+  // puzzle snapshot.
+  markRunStale() {
+    this.activeCheckpoint = null;
+    if (!this.run) return;
+    this.run.recording = null;
+    this.run.ghostFrames = null;
+    this.run.stale = true;
+  }
+
+  // Plays a replay file's input instead of live input, from a freshly loaded level.
+  beginPlayback(replay: Replay) {
+    this.run = null;
+    this.respawnAllPlayers();
+    this.playback = { replay, cursor: createReplayCursor() };
+  }
+
+  // One fixed step of the run: replays feed their own input, live runs record
+  // theirs. Returns false once a replay has run out, leaving the world frozen.
+  advance(liveInput: InputFrame): boolean {
+    const input = this.playback ? nextReplayFrame(this.playback.replay, this.playback.cursor) : liveInput;
+    if (!input) return false;
+    this.step(input);
+    const run = this.run;
+    if (run?.recording) appendReplayFrame(run.recording, input);
+    if (run?.ghostFrames && this.stats.startFrame !== null) {
+      run.ghostFrames.push(sampleGhostFrame(this.playerSlots));
+      if (this.stats.finishFrame !== null) {
+        run.finishedGhost = run.ghostFrames;
+        run.ghostFrames = null;
+      }
+    }
+    return true;
+  }
+
+  step(input: InputFrame) {
+    for (let slot = 0; slot < this.playerSlots.length; slot += 1) {
+      const slotInput = input[slot] ?? null;
+      if (slotInput && !this.playerSlots[slot]) this.joinPlayer(slot);
+      if (!slotInput && this.playerSlots[slot]) this.leavePlayer(slot);
+      const player = this.playerSlots[slot];
+      if (player && slotInput && player.handleInput({ axes: [slotInput.axisX], buttons: [{ pressed: slotInput.jump }] })) {
+        this.stats.jumps[slot] += 1;
+        this.events.emit('playerJumped', { slot });
+      }
+    }
+
+    this.checkGrounding();
+    {
+      const next = sysUpdateKey(
+        this.engine,
+        this.keyBody,
+        this.keyCarrierSlot,
+        this.playerSlots,
+        this.doorUnlocked,
+        this.doorBody,
+        this.events
+      );
+      this.keyBody = next.keyBody;
+      this.keyCarrierSlot = next.keyCarrierSlot;
+      this.doorUnlocked = next.doorUnlocked;
+      if (next.pickedUpBy !== null) this.stats.keysCarried[next.pickedUpBy] += 1;
+    }
+    const entities = this.entities;
+    sysUpdateButtons(entities.list('button'), this.playerSlots, entities.bodies('block'), this.events);
+    this.activeTargets = sysUpdateLogic(entities.list('button'), entities.list('gate'), entities.list('bridge'));
+    sysUpdateBridges(entities.list('bridge'), entities.bodies('block'), this.playerSlots, this.events);
+    sysUpdateBlocks(entities.list('block'), this.playerSlots, this.engine, this.events);
+    {
+      const next = sysUpdateDoor(
+        this.doorBody,
+        this.keyPoint,
+        this.doorUnlocked,
+        this.isDoorPowered(),
+        this.playerSlots,
+        this.levelCompleted,
+        this.completionFrames,
+        this.frame,
+        this.events
+      );
+      if (next.levelCompleted && this.stats.finishFrame === null) this.stats.finishFrame = this.frame;
+      this.levelCompleted = next.levelCompleted;
+      this.completionFrames = next.completionFrames;
+    }
+    {
+      const reached = sysUpdateCheckpoints(
+        entities.list('checkpoint'),
+        this.playerSlots,
+        this.activeCheckpoint?.def.id ?? null,
+        this.events
+      );
+      if (reached) this.activeCheckpoint = { def: reached, snapshot: this.capturePuzzleSnapshot(reached) };
+    }
+    if (sysUpdateSpikes(entities.list('spike'), this.activeTargets, this.playerSlots, this.events) !== null) {
+      this.handleTeamDeath();
+    }
+    for (const plugin of listEntityPlugins()) {
+      const list = entities.pluginEntities(plugin.type);
+      if (!plugin.update || list.length === 0) continue;
+      plugin.update(list, {
+        engine: this.engine,
+        frame: this.frame,
+        playerSlots: this.playerSlots,
+        activeTargets: this.activeTargets,
+        events: this.events
+      });
+    }
+
+    Engine.update(this.engine, FIXED_STEP_MS);
+    this.frame += 1;
+  }
+
+  snapshot(): SimulationSnapshot {
+    return {
+      frame: this.frame,
+      players: this.playerSlots.map(p =>
+        p ? { x: p.body.position.x, y: p.body.position.y, vx: p.body.velocity.x, vy: p.body.velocity.y } : null
+      ),
+      keyCarrierSlot: this.keyCarrierSlot,
+      levelCompleted: this.levelCompleted,
+      activeCheckpointId: this.activeCheckpoint?.def.id ?? null,
+      activeTargets: [...this.activeTargets].sort(),
+      puzzle: this.capturePuzzleSnapshot(null)
+    };
+  }
+
+  // A door that some button links to stays shut until one of those buttons is held.
+  isDoorPowered(): boolean {
+    return (
+      !isDoorLinked(this.entities.linkSources()) || this.activeTargets.has(linkTargetKey({ kind: 'door' }))
+    );
+  }
+
+  setLevelConfig(config: LevelConfig) {
+    this.levelConfig = config;
+    this.rebuildBounds();
+  }
+
+  setDoorRect(rect: LevelRect) {
+    if (this.doorBody) Composite.remove(this.engine.world, this.doorBody);
+    this.doorRect = rect;
+    this.doorBody = setDoorEnt(rect, this.engine);
+  }
+
+  clearLevel() {
+    const world = this.engine.world;
+    this.entities.clear();
+    if (this.keyBody) Composite.remove(world, this.keyBody);
+    this.keyBody = null;
+    this.keyPoint = null;
+    this.keyCarrierSlot = null;
+    this.doorUnlocked = false;
+    this.activeTargets = new Set();
+    this.activeCheckpoint = null;
+    if (this.doorBody) Composite.remove(world, this.doorBody);
+    this.doorBody = null;
+    this.doorRect = null;
+    this.spawnPoint = null;
+    this.levelTheme = null;
+    this.foreignEntities = {};
+    this.levelCompleted = false;
+    this.completionFrames = 0;
+    this.nextEntityId = 1;
+    this.stats = createRunStats(this.playerSlots.some(Boolean) ? this.frame : null);
+  }
+
+  // Fixed steps from the first join until the level was completed, or until now.
+  elapsedFrames(): number {
+    if (this.stats.startFrame === null) return 0;
+    return (this.stats.finishFrame ?? this.frame) - this.stats.startFrame;
+  }
+
+  ensureLevelDefaults() {
+    ensureDoorEnt(this.doorBody, this.levelConfig, snap, rect => this.setDoorRect(rect));
+    this.spawnPoint = ensureSpawnEnt(this.spawnPoint, this.levelConfig, snap);
+    this.keyBody = ensureKeyEnt(this.engine, this.keyPoint, this.keyBody);
+  }
+
+  // Replaces the world with an already parsed level.
+  loadLevel(level: LevelState) {
+    this.setLevelConfig({ width: snap(level.config.width), height: snap(level.config.height) });
+    this.clearLevel();
+    const entities = this.entities;
+
+    for (const r of level.platforms) entities.add('platform', { ...r });
+
+    if (level.door) this.setDoorRect(level.door);
+    this.levelTheme = level.theme ?? null;
+
+    if (level.spawn) {
+      this.spawnPoint = { x: snap(level.spawn.x), y: snap(level.spawn.y) };
+    }
+
+    if (level.key) {
+      this.keyPoint = { x: snap(level.key.x), y: snap(level.key.y) };
+      this.keyBody = createKeyBody(this.keyPoint);
+      Composite.add(this.engine.world, this.keyBody);
+    }
+
+    for (const b of level.blocks) {
+      const rect: LevelRect = { x: b.x, y: b.y, w: b.w, h: b.h };
+      const clamped = typeof b.required === 'number' ? Math.max(1, Math.min(4, Math.round(b.required))) : undefined;
+      const allowedPlayer =
+        typeof b.allowedPlayer === 'number' ? Math.max(0, Math.min(3, Math.round(b.allowedPlayer))) : undefined;
+      const defRect: BlockDef = { ...rect };
+      if (allowedPlayer !== undefined) defRect.allowedPlayer = allowedPlayer;
+      else defRect.required = clamped ?? DEFAULT_BLOCK_REQUIRED;
+      entities.add('block', defRect);
+    }
+
+    for (const sp of level.spikes) {
+      entities.add('spike', { x: sp.x, y: sp.y, w: sp.w, h: sp.h, id: Math.round(sp.id) });
+    }
+
+    for (const br of level.bridges) {
+      const rect: LevelRect = { x: br.x, y: br.y, w: br.w, h: br.h };
+      const requiredPlayers = br.requiredPlayers;
+      const def: BridgeDef = {
+        ...rect,
+        id: Math.round(br.id),
+        dx: Math.round(br.dx),
+        dy: Math.round(br.dy),
+        distance: snap(Math.max(0, Math.round(br.distance))),
+        permanent: Boolean(br.permanent),
+        ...(requiredPlayers ? { requiredPlayers } : {}),
+        ...(br.path ? { path: normalizeBridgePath(br.path, snap) } : {})
+      };
+      entities.add('bridge', def);
+    }
+
+    for (const btn of level.buttons) {
+      const rect: LevelRect = { x: btn.x, y: btn.y, w: btn.w, h: btn.h };
+      entities.add('button', { ...rect, id: Math.round(btn.id), targets: btn.targets.map(t => ({ ...t })) });
+    }
+
+    for (const g of level.gates) {
+      const def: GateDef = { ...g, targets: g.targets.map(t => ({ ...t })) };
+      entities.add('gate', def);
+    }
+
+    for (const cp of level.checkpoints) {
+      const def: CheckpointDef = { id: cp.id, x: snap(cp.x), y: snap(cp.y) };
+      entities.add('checkpoint', def);
+    }
+
+    for (const [type, defs] of Object.entries(level.custom ?? {})) {
+      const plugin = getEntityPlugin(type);
+      if (!plugin) {
+        this.foreignEntities[type] = defs;
+        continue;
+      }
+      for (const def of defs) entities.addPlugin(plugin, def as LevelRect);
+    }
+
+    const ids = [
+      ...entities.defs('bridge'),
+      ...entities.defs('button'),
+      ...entities.defs('spike'),
+      ...entities.defs('gate'),
+      ...entities.defs('checkpoint')
+    ].map(d => d.id);
+    this.nextEntityId = Math.max(1, ...ids.map(id => id + 1));
+
+    this.ensureLevelDefaults();
+  }
+
+  buildLevelState(): LevelState {
+    const custom: Record<string, unknown[]> = { ...this.foreignEntities };
+    for (const { plugin, def } of this.entities.pluginEntities()) {
+      (custom[plugin.type] ??= []).push(plugin.serialize ? plugin.serialize(def) : def);
+    }
+    return {
+      version: LEVEL_VERSION,
+      config: this.levelConfig,
+      platforms: this.entities.defs('platform'),
+      door: this.doorRect,
+      spawn: this.spawnPoint,
+      key: this.keyPoint,
+      blocks: this.entities.defs('block'),
+      bridges: this.entities.defs('bridge'),
+      buttons: this.entities.defs('button'),
+      spikes: this.entities.defs('spike'),
+      gates: this.entities.defs('gate'),
+      checkpoints: this.entities.defs('checkpoint'),
+      ...(this.levelTheme ? { theme: this.levelTheme } : {}),
+      ...(Object.keys(custom).length > 0 ? { custom } : {})
+    };
+  }
+
+  // Everything a button or gate can drive; a gate can't drive itself.
+  listLinkTargets(excludeGateId?: number): LinkTarget[] {
+    return [
+      ...this.entities
+        .defs('gate')
+        .filter(g => g.id !== excludeGateId)
+        .map(g => ({ kind: 'gate' as const, id: g.id })),
+      ...this.entities.defs('bridge').map(b => ({ kind: 'bridge' as const, id: b.id })),
+      ...this.entities.defs('spike').map(sp => ({ kind: 'spike' as const, id: sp.id })),
+      { kind: 'door' as const }
+    ];
+  }
+
+  setKeyPoint(point: { x: number; y: number }) {
+    const next = setKeyPointEnt(point, this.engine, this.keyBody, this.keyCarrierSlot, this.doorUnlocked);
+    this.keyPoint = next.keyPoint;
+    this.keyBody = next.keyBody;
+    this.keyCarrierSlot = next.keyCarrierSlot;
+    this.doorUnlocked = next.doorUnlocked;
+  }
+
+  updateBridge(id: number, patch: BridgePatch): BridgeDef | null {
+    const bridge = this.entities.get('bridge', id);
+    if (!bridge) return null;
+    const def = bridge.def;
+    if (patch.dx !== undefined || patch.dy !== undefined) {
+      const nx = Math.round(patch.dx ?? def.dx);
+      const ny = Math.round(patch.dy ?? def.dy);
+      if (Math.abs(nx) + Math.abs(ny) === 1) {
+        def.dx = nx;
+        def.dy = ny;
+      }
+    }
+    if (patch.distance !== undefined && Number.isFinite(patch.distance)) {
+      def.distance = snap(Math.max(0, Math.round(patch.distance)));
+    }
+    if (patch.permanent !== undefined) {
+      def.permanent = Boolean(patch.permanent);
+      if (!def.permanent) bridge.state.latched = false;
+    }
+    if (patch.requiredPlayers !== undefined && Number.isFinite(patch.requiredPlayers)) {
+      const required = Math.max(0, Math.min(4, Math.round(patch.requiredPlayers)));
+      if (required > 0) def.requiredPlayers = required;
+      else delete def.requiredPlayers;
+    }
+    if (patch.path !== undefined) {
+      if (patch.path) def.path = normalizeBridgePath(patch.path, snap);
+      else delete def.path;
+      bridge.state.path = createBridgePathState();
+    }
+    return { ...def };
+  }
+
+  // Switching a block back from a single allowed player restores defaultRequired pushers.
+  updateBlock(id: number, patch: BlockPatch, defaultRequired: number): BlockDef | null {
+    const def = this.entities.get('block', id)?.def;
+    if (!def) return null;
+    if (patch.allowedPlayer !== undefined && patch.allowedPlayer !== null && Number.isFinite(patch.allowedPlayer)) {
+      def.allowedPlayer = Math.max(0, Math.min(3, Math.round(patch.allowedPlayer)));
+      delete def.required;
+    } else if (patch.required !== undefined && Number.isFinite(patch.required)) {
+      def.required = Math.max(1, Math.min(4, Math.round(patch.required)));
+      delete def.allowedPlayer;
+    } else if (patch.allowedPlayer === null) {
+      def.required = def.required ?? defaultRequired;
+      delete def.allowedPlayer;
+    }
+    return { ...def };
+  }
+
+  updateButton(id: number, patch: ButtonPatch): ButtonDef | null {
+    const def = this.entities.get('button', id)?.def;
+    if (!def) return null;
+    if (patch.targets !== undefined) def.targets = filterLinkTargets(patch.targets, this.listLinkTargets());
+    return { ...def };
+  }
+
+  updateGate(id: number, patch: GatePatch): GateDef | null {
+    const gate = this.entities.get('gate', id);
+    if (!gate) return null;
+    const def = gate.def;
+    if (patch.kind !== undefined && GATE_KINDS.includes(patch.kind) && patch.kind !== def.kind) {
+      def.kind = patch.kind;
+      if (def.kind === 'delay') def.delayFrames = def.delayFrames ?? DEFAULT_GATE_DELAY_FRAMES;
+      else delete def.delayFrames;
+      gate.state = createGateRuntime();
+    }
+    if (patch.delayFrames !== undefined && def.kind === 'delay' && Number.isFinite(patch.delayFrames)) {
+      def.delayFrames = Math.max(0, Math.round(patch.delayFrames));
+    }
+    if (patch.targets !== undefined) def.targets = filterLinkTargets(patch.targets, this.listLinkTargets(def.id));
+    return { ...def };
+  }
+
+  respawnAllPlayers() {
+    this.resetOnDeath();
+    this.spawnPoint = ensureSpawnEnt(this.spawnPoint, this.levelConfig, snap);
+    this.placePlayers(this.spawnPoint);
+  }
+
+  private joinPlayer(slot: number) {
+    const spawn = getSpawnForSlotEnt(slot, this.spawnPoint, this.levelConfig, snap);
+    const player = new Player(spawn.x, spawn.y, PLAYER_COLORS[slot]);
+    if (this.stats.startFrame === null) this.stats.startFrame = this.frame;
+    this.playerSlots[slot] = player;
+    Composite.add(this.engine.world, player.body);
+    this.events.emit('playerJoined', { slot });
+  }
+
+  private leavePlayer(slot: number) {
+    const player = this.playerSlots[slot];
+    if (!player) return;
+    Composite.remove(this.engine.world, player.body);
+    this.playerSlots[slot] = null;
+    this.events.emit('playerLeft', { slot });
+  }
+
+  private placePlayers(origin: { x: number; y: number }) {
+    for (let slot = 0; slot < this.playerSlots.length; slot += 1) {
+      const player = this.playerSlots[slot];
+      if (!player) continue;
+      const spawn = getSpawnForSlotEnt(slot, origin, this.levelConfig, snap);
+      Matter.Body.setPosition(player.body, { x: spawn.x, y: spawn.y });
+      Matter.Body.setVelocity(player.body, { x: 0, y: 0 });
+      Matter.Body.setAngularVelocity(player.body, 0);
+    }
+  }
+
+  private handleTeamDeath() {
+    this.stats.deaths += 1;
+    if (!this.activeCheckpoint) {
+      this.respawnAllPlayers();
+      return;
+    }
+    this.restorePuzzleSnapshot(this.activeCheckpoint.snapshot);
+    this.placePlayers(this.activeCheckpoint.def);
+  }
+
+  private resetOnDeath() {
+    this.levelCompleted = false;
+    this.completionFrames = 0;
+    this.doorUnlocked = false;
+    this.keyCarrierSlot = null;
+
+    if (this.keyPoint) {
+      if (!this.keyBody) {
+        this.keyBody = createKeyBody(this.keyPoint);
+        Composite.add(this.engine.world, this.keyBody);
+      }
+      Matter.Body.setPosition(this.keyBody, { x: this.keyPoint.x, y: this.keyPoint.y });
+      Matter.Body.setVelocity(this.keyBody, { x: 0, y: 0 });
+      Matter.Body.setAngularVelocity(this.keyBody, 0);
+    } else {
+      if (this.keyBody) Composite.remove(this.engine.world, this.keyBody);
+      this.keyBody = null;
+    }
+
+    for (const { def, body } of this.entities.list('block')) {
+      Matter.Body.setPosition(body, { x: def.x + def.w / 2, y: def.y + def.h / 2 });
+      Matter.Body.setVelocity(body, { x: 0, y: 0 });
+      Matter.Body.setAngularVelocity(body, 0);
+      Matter.Body.setStatic(body, true);
+    }
+
+    for (const { body, state } of this.entities.list('bridge')) {
+      state.activated = false;
+      state.latched = false;
+      state.path = createBridgePathState();
+      Matter.Body.setPosition(body, { x: state.home.x, y: state.home.y });
+      Matter.Body.setVelocity(body, { x: 0, y: 0 });
+      Matter.Body.setAngularVelocity(body, 0);
+    }
+    for (const gate of this.entities.list('gate')) gate.state = createGateRuntime();
+    this.resetPluginEntities();
+    this.activeTargets = new Set();
+  }
+
+  // A key someone is holding comes back at the checkpoint with the team.
+  private capturePuzzleSnapshot(checkpoint: CheckpointDef | null): PuzzleSnapshot {
+    const keyBody = this.keyBody;
+    const keyPosition = keyBody
+      ? checkpoint && this.keyCarrierSlot !== null
+        ? { x: checkpoint.x, y: checkpoint.y }
+        : { x: keyBody.position.x, y: keyBody.position.y }
+      : null;
+    return {
+      doorUnlocked: this.doorUnlocked,
+      keyPosition,
+      blocks: this.entities.list('block').map(({ id, body }) => ({ id, x: body.position.x, y: body.position.y })),
+      bridges: this.entities.list('bridge').map(({ id, body, state }) => ({
+        id,
+        x: body.position.x,
+        y: body.position.y,
+        latched: state.latched,
+        path: { ...state.path }
+      })),
+      gates: this.entities.list('gate').map(({ id, state }) => ({ id, state: { ...state, history: [...state.history] } }))
+    };
+  }
+
+  private restorePuzzleSnapshot(snapshot: PuzzleSnapshot) {
+    this.levelCompleted = false;
+    this.completionFrames = 0;
+    this.doorUnlocked = snapshot.doorUnlocked;
+    this.keyCarrierSlot = null;
+    if (snapshot.keyPosition) {
+      if (!this.keyBody) {
+        this.keyBody = createKeyBody(snapshot.keyPosition);
+        Composite.add(this.engine.world, this.keyBody);
+      }
+      Matter.Body.setPosition(this.keyBody, snapshot.keyPosition);
+    } else if (this.keyBody) {
+      Composite.remove(this.engine.world, this.keyBody);
+      this.keyBody = null;
+    }
+
+    for (const saved of snapshot.blocks) {
+      const block = this.entities.get('block', saved.id);
+      if (!block) continue;
+      Matter.Body.setPosition(block.body, { x: saved.x, y: saved.y });
+      Matter.Body.setVelocity(block.body, { x: 0, y: 0 });
+      Matter.Body.setAngularVelocity(block.body, 0);
+      Matter.Body.setStatic(block.body, true);
+    }
+
+    for (const saved of snapshot.bridges) {
+      const bridge = this.entities.get('bridge', saved.id);
+      if (!bridge) continue;
+      bridge.state.activated = false;
+      bridge.state.latched = saved.latched;
+      bridge.state.path = { ...saved.path };
+      Matter.Body.setPosition(bridge.body, { x: saved.x, y: saved.y });
+      Matter.Body.setVelocity(bridge.body, { x: 0, y: 0 });
+    }
+
+    for (const saved of snapshot.gates) {
+      const gate = this.entities.get('gate', saved.id);
+      if (gate) gate.state = { ...saved.state, history: [...saved.state.history] };
+    }
+    this.resetPluginEntities();
+    this.activeTargets = new Set();
+  }
+
+  // Plugin state isn't part of checkpoint snapshots, so it resets on any respawn.
+  private resetPluginEntities() {
+    for (const entity of this.entities.pluginEntities()) {
+      if (entity.plugin.reset) entity.plugin.reset(entity);
+      else entity.state = entity.plugin.createState(entity.def, entity.body);
+    }
+  }
+
+  private checkGrounding() {
+    const playerSlots = this.playerSlots;
+    playerSlots.forEach(player => {
+      if (!player) return;
+      const bodies = Composite.allBodies(this.engine.world);
+      const groundBodies = bodies.filter(
+        b =>
+          b !== player.body &&
+          (b.label === 'ground' ||
+            b.label === 'platform' ||
+            b.label === 'player' ||
+            b.label === 'block' ||
+            b.label === 'bridge')
+      );
+
+      // Check slightly below the player
+      const regionBelow = {
+        min: { x: player.body.position.x - 18, y: player.body.position.y + 21 },
+        max: { x: player.body.position.x + 18, y: player.body.position.y + 25 }
+      };
+      const belowHits = Matter.Query.region(groundBodies, regionBelow);
+      const isGrounded = belowHits.length > 0;
+
+      const otherPlayers = playerSlots.filter((p): p is Player => Boolean(p) && p !== player);
+      const playerContacts = Matter.Query.collides(player.body, otherPlayers.map(p => p.body));
+      const hasPlayerAbove = playerContacts.some(c => {
+        const other = c.bodyA === player.body ? c.bodyB : c.bodyA;
+        return other.label === 'player' && other.position.y < player.body.position.y - 5;
+      });
+
+      const pushingBlock = this.entities.bodies('block').some(b => {
+        if (Matter.Query.collides(player.body, [b]).length === 0) return false;
+        const dx = b.position.x - player.body.position.x;
+        if (dx > 0 && player.moveAxisX > 0.2) return true;
+        if (dx < 0 && player.moveAxisX < -0.2) return true;
+        return false;
+      });
+      const pushSlowdown = pushingBlock ? 0.6 : 1;
+      player.update(isGrounded, isGrounded && !hasPlayerAbove, pushSlowdown);
+    });
+  }
+
+  private rebuildBounds() {
+    for (const body of this.boundaryBodies) {
+      Composite.remove(this.engine.world, body);
+    }
+
+    const wallThickness = 60;
+    const groundThickness = 40;
+    const w = this.levelConfig.width;
+    const h = this.levelConfig.height;
+    const options = { isStatic: true, label: 'ground', friction: 0, frictionStatic: 0 };
+
+    const ground = Bodies.rectangle(w / 2, h - groundThickness / 2, w + 10, groundThickness, options);
+    const leftWall = Bodies.rectangle(wallThickness / 2 - 20, h / 2, wallThickness, h, options);
+    const rightWall = Bodies.rectangle(w - wallThickness / 2 + 20, h / 2, wallThickness, h, options);
+    const ceiling = Bodies.rectangle(w / 2, wallThickness / 2 - 20, w + 10, wallThickness, options);
+
+    this.boundaryBodies = [ground, leftWall, rightWall, ceiling];
+    Composite.add(this.engine.world, this.boundaryBodies);
+  }
+}
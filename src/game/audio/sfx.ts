@@ -0,0 +1,173 @@
+import type { GameEventType } from '../events';
+
+export type SoundCue =
+  | 'jump'
+  | 'blockStart'
+  | 'blockStop'
+  | 'buttonDown'
+  | 'buttonUp'
+  | 'bridgeStart'
+  | 'bridgeStop'
+  | 'keyPickup'
+  | 'doorUnlock'
+  | 'death'
+  | 'levelComplete';
+
+export type AudioSettings = { master: number; sfx: number; muted: boolean };
+
+export type SfxEngine = { context: AudioContext; master: GainNode; sfx: GainNode; noise: AudioBuffer };
+
+type Tone = {
+  wave: OscillatorType;
+  from: number;
+  to: number;
+  duration: number;
+  volume: number;
+  delay?: number;
+};
+
+type Noise = { cutoff: number; duration: number; volume: number; delay?: number };
+
+type Recipe = { tones?: Tone[]; noise?: Noise[] };
+
+// Everything is synthesised, so the game ships without audio assets.
+const RECIPES: Record<SoundCue, Recipe> = {
+  jump: { tones: [{ wave: 'square', from: 300, to: 620, duration: 0.12, volume: 0.18 }] },
+  blockStart: { noise: [{ cutoff: 500, duration: 0.18, volume: 0.35 }] },
+  blockStop: { tones: [{ wave: 'triangle', from: 130, to: 70, duration: 0.1, volume: 0.4 }] },
+  buttonDown: { tones: [{ wave: 'square', from: 540, to: 420, duration: 0.07, volume: 0.15 }] },
+  buttonUp: { tones: [{ wave: 'square', from: 420, to: 540, duration: 0.05, volume: 0.08 }] },
+  bridgeStart: { tones: [{ wave: 'sawtooth', from: 80, to: 150, duration: 0.25, volume: 0.12 }] },
+  bridgeStop: { tones: [{ wave: 'triangle', from: 150, to: 90, duration: 0.12, volume: 0.25 }] },
+  keyPickup: {
+    tones: [
+      { wave: 'sine', from: 660, to: 660, duration: 0.08, volume: 0.3 },
+      { wave: 'sine', from: 880, to: 880, duration: 0.08, volume: 0.3, delay: 0.07 },
+      { wave: 'sine', from: 1320, to: 1320, duration: 0.14, volume: 0.3, delay: 0.14 }
+    ]
+  },
+  doorUnlock: {
+    tones: [
+      { wave: 'triangle', from: 330, to: 660, duration: 0.2, volume: 0.35 },
+      { wave: 'sine', from: 990, to: 990, duration: 0.25, volume: 0.2, delay: 0.12 }
+    ]
+  },
+  death: {
+    tones: [{ wave: 'sawtooth', from: 420, to: 55, duration: 0.45, volume: 0.22 }],
+    noise: [{ cutoff: 1800, duration: 0.3, volume: 0.3 }]
+  },
+  levelComplete: {
+    tones: [523, 659, 784, 1047].map((freq, i) => ({
+      wave: 'square' as const,
+      from: freq,
+      to: freq,
+      duration: i === 3 ? 0.4 : 0.12,
+      volume: 0.14,
+      delay: i * 0.11
+    }))
+  }
+};
+
+// Which gameplay events make a sound.
+export const EVENT_CUES: Partial<Record<GameEventType, SoundCue>> = {
+  playerJumped: 'jump',
+  blockStarted: 'blockStart',
+  blockStopped: 'blockStop',
+  buttonPressed: 'buttonDown',
+  buttonReleased: 'buttonUp',
+  bridgeStarted: 'bridgeStart',
+  bridgeStopped: 'bridgeStop',
+  bridgeArrived: 'bridgeStop',
+  keyPickedUp: 'keyPickup',
+  doorUnlocked: 'doorUnlock',
+  playerDied: 'death',
+  levelCompleted: 'levelComplete'
+};
+
+const AUDIO_SETTINGS_KEY = 'pico_audio_v1';
+
+export function readAudioSettings(): AudioSettings {
+  const fallback: AudioSettings = { master: 0.8, sfx: 0.8, muted: false };
+  const raw = localStorage.getItem(AUDIO_SETTINGS_KEY);
+  if (!raw) return fallback;
+  try {
+    const parsed = JSON.parse(raw) as Partial<AudioSettings>;
+    const volume = (value: unknown, defaultValue: number) =>
+      typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : defaultValue;
+    return {
+      master: volume(parsed.master, fallback.master),
+      sfx: volume(parsed.sfx, fallback.sfx),
+      muted: parsed.muted === true
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeAudioSettings(settings: AudioSettings) {
+  localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// Browsers only let an AudioContext start from a user gesture, so callers
+// create the engine on the first key or pointer press. Null without Web Audio.
+export function createSfxEngine(settings: AudioSettings): SfxEngine | null {
+  if (typeof AudioContext === 'undefined') return null;
+  const context = new AudioContext();
+  const master = context.createGain();
+  master.connect(context.destination);
+  const sfx = context.createGain();
+  sfx.connect(master);
+  const noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+  const samples = noise.getChannelData(0);
+  for (let i = 0; i < samples.length; i += 1) samples[i] = Math.random() * 2 - 1;
+  const engine = { context, master, sfx, noise };
+  applyAudioSettings(engine, settings);
+  return engine;
+}
+
+export function applyAudioSettings(engine: SfxEngine, settings: AudioSettings) {
+  const now = engine.context.currentTime;
+  engine.master.gain.setValueAtTime(settings.muted ? 0 : settings.master, now);
+  engine.sfx.gain.setValueAtTime(settings.sfx, now);
+}
+
+function envelope(engine: SfxEngine, start: number, duration: number, volume: number): GainNode {
+  const gain = engine.context.createGain();
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(volume, start + 0.005);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  gain.connect(engine.sfx);
+  return gain;
+}
+
+export function playCue(engine: SfxEngine, cue: SoundCue) {
+  if (engine.context.state !== 'running') return;
+  const recipe = RECIPES[cue];
+  const now = engine.context.currentTime;
+  for (const tone of recipe.tones ?? []) {
+    const start = now + (tone.delay ?? 0);
+    const osc = engine.context.createOscillator();
+    osc.type = tone.wave;
+    osc.frequency.setValueAtTime(tone.from, start);
+    osc.frequency.exponentialRampToValueAtTime(tone.to, start + tone.duration);
+    const gain = envelope(engine, start, tone.duration, tone.volume);
+    osc.connect(gain);
+    osc.onended = () => gain.disconnect();
+    osc.start(start);
+    osc.stop(start + tone.duration);
+  }
+  for (const noise of recipe.noise ?? []) {
+    const start = now + (noise.delay ?? 0);
+    const source = engine.context.createBufferSource();
+    source.buffer = engine.noise;
+    const filter = engine.context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(noise.cutoff, start);
+    source.connect(filter);
+    const gain = envelope(engine, start, noise.duration, noise.volume);
+    filter.connect(gain);
+    source.onended = () => gain.disconnect();
+    source.start(start);
+    source.stop(start + noise.duration);
+  }
+}
@@ -1,50 +1,40 @@
 import Matter from 'matter-js';
-import type { Body } from 'matter-js';
-import type { ButtonDef, BridgeDef } from '../Game';
 import { addButton } from '../entities/button';
+import { toggleLinkTarget } from '../entities/links';
+import { pickLinkTarget } from './links';
+import type { SelectableWorld } from './select';
 
 export function handleButtonClick(
   p: { x: number; y: number },
-  buttonBodies: Body[],
-  buttonDefs: ButtonDef[],
-  bridgeBodies: Body[],
-  bridgeDefs: BridgeDef[],
+  world: SelectableWorld,
   snap: (n: number) => number,
   nextEntityId: number,
-  engine: Matter.Engine,
   persistLevel: () => void,
   buttonLinkingId: number | null
 ): { buttonLinkingId: number | null; nextEntityId: number } {
-  const hitButtons = Matter.Query.point(buttonBodies, p);
+  const { entities } = world;
+  const hitButtons = Matter.Query.point(entities.bodies('button'), p);
   if (hitButtons.length > 0) {
-    const idx = buttonBodies.indexOf(hitButtons[0]);
-    const def = idx >= 0 ? buttonDefs[idx] : undefined;
+    const def = entities.fromBody('button', hitButtons[0])?.def;
     if (def) {
-      buttonLinkingId = def.id;
-      persistLevel();
+      // Clicking the button being linked again finishes linking.
+      buttonLinkingId = buttonLinkingId === def.id ? null : def.id;
       return { buttonLinkingId, nextEntityId };
     }
   }
 
   if (buttonLinkingId === null) {
-    const res = addButton(p, snap, nextEntityId, buttonDefs, buttonBodies, [], engine, persistLevel);
+    const res = addButton(p, snap, nextEntityId, entities, persistLevel);
     return { buttonLinkingId: res.id, nextEntityId: res.nextEntityId };
   }
 
-  const hitBridges = Matter.Query.point(bridgeBodies, p);
-  if (hitBridges.length > 0) {
-    const idx = bridgeBodies.indexOf(hitBridges[0]);
-    const bridge = idx >= 0 ? bridgeDefs[idx] : undefined;
-    if (bridge) {
-      const btn = buttonDefs.find(b => b.id === buttonLinkingId);
-      if (btn) btn.targetBridgeId = bridge.id;
-      buttonLinkingId = null;
-      persistLevel();
-      return { buttonLinkingId, nextEntityId };
-    }
+  const target = pickLinkTarget(p, world);
+  const btn = entities.defs('button').find(b => b.id === buttonLinkingId);
+  if (target && btn) {
+    toggleLinkTarget(btn, target);
+    persistLevel();
+    return { buttonLinkingId, nextEntityId };
   }
 
-  buttonLinkingId = null;
-  persistLevel();
-  return { buttonLinkingId, nextEntityId };
+  return { buttonLinkingId: null, nextEntityId };
 }
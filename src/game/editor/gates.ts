@@ -0,0 +1,35 @@
+import type { GateKind } from '../Game';
+import { addGate } from '../entities/gate';
+import { toggleLinkTarget } from '../entities/links';
+import { pickLinkTarget } from './links';
+import type { SelectableWorld } from './select';
+
+export function handleGateClick(
+  p: { x: number; y: number },
+  world: SelectableWorld,
+  gateKind: GateKind,
+  snap: (n: number) => number,
+  nextEntityId: number,
+  persistLevel: () => void,
+  gateLinkingId: number | null
+): { gateLinkingId: number | null; nextEntityId: number } {
+  const target = pickLinkTarget(p, world);
+
+  if (gateLinkingId === null) {
+    if (target?.kind === 'gate') return { gateLinkingId: target.id, nextEntityId };
+    if (target) return { gateLinkingId, nextEntityId };
+    const res = addGate(p, snap, gateKind, nextEntityId, world.entities, persistLevel);
+    return { gateLinkingId: res.id, nextEntityId: res.nextEntityId };
+  }
+
+  // Clicking the gate being linked again finishes linking.
+  if (!target || (target.kind === 'gate' && target.id === gateLinkingId)) {
+    return { gateLinkingId: null, nextEntityId };
+  }
+  const gate = world.entities.defs('gate').find(g => g.id === gateLinkingId);
+  if (gate) {
+    toggleLinkTarget(gate, target);
+    persistLevel();
+  }
+  return { gateLinkingId, nextEntityId };
+}
@@ -0,0 +1,13 @@
+import Matter from 'matter-js';
+import type { LinkTarget } from '../Game';
+import type { SelectableWorld } from './select';
+
+export function pickLinkTarget(p: { x: number; y: number }, world: SelectableWorld): LinkTarget | null {
+  for (const kind of ['gate', 'bridge', 'spike'] as const) {
+    const hits = Matter.Query.point(world.entities.bodies(kind), p);
+    const entity = hits.length > 0 ? world.entities.fromBody(kind, hits[0]) : undefined;
+    if (entity) return { kind, id: entity.def.id };
+  }
+  if (world.doorBody && Matter.Query.point([world.doorBody], p).length > 0) return { kind: 'door' };
+  return null;
+}
@@ -0,0 +1,184 @@
+import Matter from 'matter-js';
+import type { Body, Engine } from 'matter-js';
+import type { LevelRect } from '../Game';
+import { createDoorBody } from '../entities/door';
+import type { EntityKind, EntityRegistry } from '../entities/registry';
+
+export type SelectableKind = EntityKind | 'plugin' | 'door' | 'key' | 'spawn';
+// Entities are selected by registry id; the door, key and spawn use id 0.
+export type EditorSelection = { kind: SelectableKind; id: number };
+export type SelectionHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+export type SelectableWorld = {
+  engine: Engine;
+  gridSize: number;
+  entities: EntityRegistry;
+  doorRect: LevelRect | null;
+  doorBody: Body | null;
+  keyPoint: { x: number; y: number } | null;
+  keyBody: Body | null;
+  spawnPoint: { x: number; y: number } | null;
+};
+
+const HANDLES: SelectionHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+export function pickSelection(p: { x: number; y: number }, world: SelectableWorld): EditorSelection | null {
+  if (world.spawnPoint) {
+    const dx = p.x - world.spawnPoint.x;
+    const dy = p.y - world.spawnPoint.y;
+    if (dx * dx + dy * dy <= 18 * 18) return { kind: 'spawn', id: 0 };
+  }
+  if (world.keyBody && world.keyPoint && Matter.Query.point([world.keyBody], p).length > 0) {
+    return { kind: 'key', id: 0 };
+  }
+  if (world.doorBody && Matter.Query.point([world.doorBody], p).length > 0) return { kind: 'door', id: 0 };
+  // Small things that sit on top of others win.
+  const kinds: EntityKind[] = ['button', 'gate', 'checkpoint', 'bridge', 'block', 'spike'];
+  for (const kind of kinds) {
+    const hits = Matter.Query.point(world.entities.bodies(kind), p);
+    const entity = hits.length > 0 ? world.entities.fromBody(kind, hits[0]) : undefined;
+    if (entity) return { kind, id: entity.id };
+  }
+  const pluginHits = Matter.Query.point(world.entities.pluginEntities().map(e => e.body), p);
+  const pluginEntity = pluginHits.length > 0 ? world.entities.pluginFromBody(pluginHits[0]) : undefined;
+  if (pluginEntity) return { kind: 'plugin', id: pluginEntity.id };
+  const platformHits = Matter.Query.point(world.entities.bodies('platform'), p);
+  const platform = platformHits.length > 0 ? world.entities.fromBody('platform', platformHits[0]) : undefined;
+  return platform ? { kind: 'platform', id: platform.id } : null;
+}
+
+export function isResizable(sel: EditorSelection): boolean {
+  return sel.kind !== 'key' && sel.kind !== 'spawn' && sel.kind !== 'checkpoint';
+}
+
+export function getSelectionRect(sel: EditorSelection, world: SelectableWorld): LevelRect | null {
+  const pointRect = (pt: { x: number; y: number } | null) =>
+    pt ? { x: pt.x - world.gridSize / 2, y: pt.y - world.gridSize / 2, w: world.gridSize, h: world.gridSize } : null;
+  const pick = (r: LevelRect | undefined | null) => (r ? { x: r.x, y: r.y, w: r.w, h: r.h } : null);
+  switch (sel.kind) {
+    case 'platform':
+    case 'block':
+    case 'bridge':
+    case 'button':
+    case 'gate':
+    case 'spike':
+      return pick(world.entities.get(sel.kind, sel.id)?.def);
+    case 'plugin':
+      return pick(world.entities.getPlugin(sel.id)?.def);
+    case 'door':
+      return pick(world.doorRect);
+    case 'key':
+      return pointRect(world.keyPoint);
+    case 'spawn':
+      return pointRect(world.spawnPoint);
+    case 'checkpoint':
+      return pointRect(world.entities.get('checkpoint', sel.id)?.def ?? null);
+  }
+}
+
+export function getHandlePoints(rect: LevelRect): Array<{ handle: SelectionHandle; x: number; y: number }> {
+  const { x, y, w, h } = rect;
+  const points: Record<SelectionHandle, { x: number; y: number }> = {
+    nw: { x, y },
+    n: { x: x + w / 2, y },
+    ne: { x: x + w, y },
+    e: { x: x + w, y: y + h / 2 },
+    se: { x: x + w, y: y + h },
+    s: { x: x + w / 2, y: y + h },
+    sw: { x, y: y + h },
+    w: { x, y: y + h / 2 }
+  };
+  return HANDLES.map(handle => ({ handle, ...points[handle] }));
+}
+
+export function hitSelectionHandle(rect: LevelRect, p: { x: number; y: number }, radius: number): SelectionHandle | null {
+  for (const hp of getHandlePoints(rect)) {
+    if (Math.abs(p.x - hp.x) <= radius && Math.abs(p.y - hp.y) <= radius) return hp.handle;
+  }
+  return null;
+}
+
+export function resizeRect(rect: LevelRect, handle: SelectionHandle, p: { x: number; y: number }, minSize: number): LevelRect {
+  let left = rect.x;
+  let top = rect.y;
+  let right = rect.x + rect.w;
+  let bottom = rect.y + rect.h;
+  if (handle.includes('w')) left = Math.min(p.x, right - minSize);
+  if (handle.includes('e')) right = Math.max(p.x, left + minSize);
+  if (handle.includes('n')) top = Math.min(p.y, bottom - minSize);
+  if (handle.includes('s')) bottom = Math.max(p.y, top + minSize);
+  return { x: left, y: top, w: right - left, h: bottom - top };
+}
+
+// Writes the new rect into the entity's def and swaps in a rebuilt Matter body,
+// so ids and cross-references (button -> targets) stay intact.
+export function applySelectionRect(sel: EditorSelection, rect: LevelRect, world: SelectableWorld) {
+  const { engine, entities } = world;
+  const assignRect = (target: LevelRect) => {
+    target.x = rect.x;
+    target.y = rect.y;
+    target.w = rect.w;
+    target.h = rect.h;
+  };
+
+  switch (sel.kind) {
+    case 'platform':
+    case 'button':
+    case 'gate':
+    case 'spike': {
+      const entity = entities.get(sel.kind, sel.id);
+      if (!entity) return;
+      assignRect(entity.def);
+      entities.rebuildBody(entity);
+      return;
+    }
+    case 'plugin': {
+      const entity = entities.getPlugin(sel.id);
+      if (!entity) return;
+      assignRect(entity.def);
+      entities.rebuildBody(entity);
+      return;
+    }
+    case 'block': {
+      const block = entities.get('block', sel.id);
+      if (!block) return;
+      assignRect(block.def);
+      entities.rebuildBody(block);
+      Matter.Body.setStatic(block.body, true);
+      return;
+    }
+    case 'bridge': {
+      const bridge = entities.get('bridge', sel.id);
+      if (!bridge) return;
+      assignRect(bridge.def);
+      entities.rebuildBody(bridge);
+      bridge.state.home = { x: bridge.body.position.x, y: bridge.body.position.y };
+      return;
+    }
+    case 'door':
+      if (!world.doorBody) return;
+      Matter.Composite.remove(engine.world, world.doorBody);
+      world.doorRect = { ...rect };
+      world.doorBody = createDoorBody(rect);
+      Matter.Composite.add(engine.world, world.doorBody);
+      return;
+    case 'key': {
+      if (!world.keyPoint) return;
+      world.keyPoint = { x: rect.x + rect.w / 2, y: rect.y + rect.h / 2 };
+      if (world.keyBody) Matter.Body.setPosition(world.keyBody, world.keyPoint);
+      return;
+    }
+    case 'spawn':
+      if (!world.spawnPoint) return;
+      world.spawnPoint = { x: rect.x + rect.w / 2, y: rect.y + rect.h / 2 };
+      return;
+    case 'checkpoint': {
+      const checkpoint = entities.get('checkpoint', sel.id);
+      if (!checkpoint) return;
+      checkpoint.def.x = rect.x + rect.w / 2;
+      checkpoint.def.y = rect.y + rect.h / 2;
+      Matter.Body.setPosition(checkpoint.body, checkpoint.def);
+      return;
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import type { BridgeDef, LevelRect } from '../Game';
+import { createBridgePath } from '../entities/bridge';
+
+export function getWaypointRects(def: BridgeDef): LevelRect[] {
+  return (def.path?.waypoints ?? []).map(w => ({ x: def.x + w.x, y: def.y + w.y, w: def.w, h: def.h }));
+}
+
+export function hitWaypoint(def: BridgeDef, p: { x: number; y: number }): number | null {
+  const rects = getWaypointRects(def);
+  for (let i = rects.length - 1; i >= 0; i -= 1) {
+    const r = rects[i];
+    if (p.x >= r.x && p.x <= r.x + r.w && p.y >= r.y && p.y <= r.y + r.h) return i;
+  }
+  return null;
+}
+
+// Offset that puts the bridge's center on p.
+export function waypointOffsetAt(def: BridgeDef, p: { x: number; y: number }, snap: (n: number) => number) {
+  return { x: snap(p.x - def.w / 2) - def.x, y: snap(p.y - def.h / 2) - def.y };
+}
+
+export function addWaypoint(def: BridgeDef, p: { x: number; y: number }, snap: (n: number) => number) {
+  if (!def.path) def.path = createBridgePath();
+  def.path.waypoints.push(waypointOffsetAt(def, p, snap));
+}
@@ -1,5 +1,32 @@
-import { Bodies, Composite, type Body, type Engine } from 'matter-js';
-import type { LevelRect, BridgeDef, ButtonDef } from '../Game';
+import { Bodies, type Body } from 'matter-js';
+import type { LevelRect, BridgeDef, BridgePath } from '../Game';
+import type { EntityRegistry } from './registry';
+
+export const DEFAULT_BRIDGE_PATH_SPEED = 2;
+export const MAX_BRIDGE_PATH_SPEED = 20;
+
+export function createBridgePath(): BridgePath {
+  return { waypoints: [], speed: DEFAULT_BRIDGE_PATH_SPEED, mode: 'pingpong', trigger: 'button' };
+}
+
+export function normalizeBridgePath(path: BridgePath, snap: (n: number) => number): BridgePath {
+  const speed = Number.isFinite(path.speed) ? path.speed : DEFAULT_BRIDGE_PATH_SPEED;
+  return {
+    waypoints: path.waypoints
+      .filter(w => Number.isFinite(w.x) && Number.isFinite(w.y))
+      .map(w => ({ x: snap(w.x), y: snap(w.y) })),
+    speed: Math.max(0.25, Math.min(MAX_BRIDGE_PATH_SPEED, speed)),
+    mode: path.mode === 'loop' ? 'loop' : 'pingpong',
+    trigger: path.trigger === 'always' ? 'always' : 'button'
+  };
+}
+
+export function createBridgeBody(rect: LevelRect): Body {
+  return Bodies.rectangle(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h, {
+    isStatic: true,
+    label: 'bridge'
+  });
+}
 
 export function addBridge(
   rect: LevelRect,
@@ -8,13 +35,7 @@ export function addBridge(
   bridgePermanent: boolean,
   bridgeRequiredPlayers: number,
   nextEntityId: number,
-  bridgeDefs: BridgeDef[],
-  bridgeBodies: Body[],
-  bridgeActivated: boolean[],
-  bridgeLatched: boolean[],
-  bridgeHomeCenters: Array<{ x: number; y: number }>,
-  bridgeCarryX: number[],
-  engine: Engine,
+  entities: EntityRegistry,
   persistLevel: () => void
 ): number {
   const dx = bridgeMove.dx;
@@ -31,49 +52,7 @@ export function addBridge(
     permanent: bridgePermanent,
     ...(requiredPlayers > 0 ? { requiredPlayers } : {})
   };
-  const body = Bodies.rectangle(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h, {
-    isStatic: true,
-    label: 'bridge'
-  });
-  bridgeDefs.push(def);
-  bridgeBodies.push(body);
-  bridgeActivated.push(false);
-  bridgeLatched.push(false);
-  bridgeHomeCenters.push({ x: body.position.x, y: body.position.y });
-  bridgeCarryX.push(0);
-  Composite.add(engine.world, body);
+  entities.add('bridge', def);
   persistLevel();
   return id + 1;
 }
-
-export function removeBridgeBody(
-  body: Body,
-  bridgeBodies: Body[],
-  bridgeDefs: BridgeDef[],
-  bridgeActivated: boolean[],
-  bridgeLatched: boolean[],
-  bridgeHomeCenters: Array<{ x: number; y: number }>,
-  bridgeCarryX: number[],
-  buttonDefs: ButtonDef[],
-  engine: Engine,
-  persistLevel: () => void
-) {
-  const idx = bridgeBodies.indexOf(body);
-  if (idx === -1) return;
-  const id = bridgeDefs[idx]?.id;
-  Composite.remove(engine.world, body);
-  bridgeBodies.splice(idx, 1);
-  bridgeDefs.splice(idx, 1);
-  bridgeActivated.splice(idx, 1);
-  bridgeLatched.splice(idx, 1);
-  bridgeHomeCenters.splice(idx, 1);
-  bridgeCarryX.splice(idx, 1);
-  if (id !== undefined) {
-    for (let i = 0; i < buttonDefs.length; i += 1) {
-      if (buttonDefs[i].targetBridgeId === id) {
-        buttonDefs[i].targetBridgeId = null;
-      }
-    }
-  }
-  persistLevel();
-}
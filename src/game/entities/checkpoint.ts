@@ -0,0 +1,25 @@
+import { Bodies, type Body } from 'matter-js';
+import type { EntityRegistry } from './registry';
+
+export const CHECKPOINT_WIDTH = 24;
+export const CHECKPOINT_HEIGHT = 48;
+
+export function createCheckpointBody(p: { x: number; y: number }): Body {
+  return Bodies.rectangle(p.x, p.y, CHECKPOINT_WIDTH, CHECKPOINT_HEIGHT, {
+    isStatic: true,
+    isSensor: true,
+    label: 'checkpoint'
+  });
+}
+
+export function addCheckpoint(
+  p: { x: number; y: number },
+  nextEntityId: number,
+  entities: EntityRegistry,
+  persistLevel: () => void
+): number {
+  const id = nextEntityId;
+  entities.add('checkpoint', { id, x: p.x, y: p.y });
+  persistLevel();
+  return id + 1;
+}
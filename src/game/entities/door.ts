@@ -1,15 +1,19 @@
 import { Bodies, Composite, type Body, type Engine } from 'matter-js';
 import type { LevelRect } from '../Game';
 
-export function setDoor(
-  rect: LevelRect,
-  engine: Engine
-): Body {
-  const body = Bodies.rectangle(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h, {
+export function createDoorBody(rect: LevelRect): Body {
+  return Bodies.rectangle(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h, {
     isStatic: true,
     isSensor: true,
     label: 'door'
   });
+}
+
+export function setDoor(
+  rect: LevelRect,
+  engine: Engine
+): Body {
+  const body = createDoorBody(rect);
   Composite.add(engine.world, body);
   return body;
 }
@@ -0,0 +1,42 @@
+import { Bodies, type Body } from 'matter-js';
+import type { GateDef, GateKind, LevelRect } from '../Game';
+import type { EntityRegistry } from './registry';
+
+export const GATE_KINDS: GateKind[] = ['and', 'or', 'not', 'toggle', 'delay'];
+export const DEFAULT_GATE_DELAY_FRAMES = 60;
+
+export function createGateBody(rect: LevelRect): Body {
+  return Bodies.rectangle(rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w, rect.h, {
+    isStatic: true,
+    isSensor: true,
+    label: 'gate'
+  });
+}
+
+export function addGate(
+  p: { x: number; y: number },
+  snap: (n: number) => number,
+  kind: GateKind,
+  nextEntityId: number,
+  entities: EntityRegistry,
+  persistLevel: () => void
+): { id: number; nextEntityId: number } {
+  const w = snap(40);
+  const h = snap(40);
+  const x = snap(p.x - w / 2);
+  const y = snap(p.y - h / 2);
+  const id = nextEntityId;
+  const def: GateDef = {
+    x,
+    y,
+    w,
+    h,
+    id,
+    kind,
+    targets: [],
+    ...(kind === 'delay' ? { delayFrames: DEFAULT_GATE_DELAY_FRAMES } : {})
+  };
+  entities.add('gate', def);
+  persistLevel();
+  return { id, nextEntityId: id + 1 };
+}
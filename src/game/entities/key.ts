@@ -1,5 +1,9 @@
 import { Bodies, Composite, type Body, type Engine } from 'matter-js';
 
+export function createKeyBody(p: { x: number; y: number }): Body {
+  return Bodies.circle(p.x, p.y, 12, { isStatic: true, isSensor: true, label: 'key' });
+}
+
 export function setKeyPoint(
   p: { x: number; y: number },
   engine: Engine,
@@ -14,7 +18,7 @@ export function setKeyPoint(
   const keyPoint = { x: p.x, y: p.y };
   keyCarrierSlot = null;
   doorUnlocked = false;
-  const newBody = Bodies.circle(keyPoint.x, keyPoint.y, 12, { isStatic: true, isSensor: true, label: 'key' });
+  const newBody = createKeyBody(keyPoint);
   Composite.add(engine.world, newBody);
   return { keyPoint, keyBody: newBody, keyCarrierSlot, doorUnlocked };
 }
@@ -34,7 +38,7 @@ export function ensureKey(
 ): Body | null {
   if (!keyPoint) return keyBody;
   if (keyBody) return keyBody;
-  const body = Bodies.circle(keyPoint.x, keyPoint.y, 12, { isStatic: true, isSensor: true, label: 'key' });
+  const body = createKeyBody(keyPoint);
   Composite.add(engine.world, body);
   return body;
 }
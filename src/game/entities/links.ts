@@ -0,0 +1,32 @@
+import type { LinkTarget } from '../Game';
+
+// Anything that drives targets: buttons and logic gates.
+export type LinkSource = { targets: LinkTarget[] };
+
+export function linkTargetKey(target: LinkTarget): string {
+  return target.kind === 'door' ? 'door' : `${target.kind}:${target.id}`;
+}
+
+export function hasLinkTarget(def: LinkSource, target: LinkTarget): boolean {
+  const key = linkTargetKey(target);
+  return def.targets.some(t => linkTargetKey(t) === key);
+}
+
+// Adds the link if the source doesn't drive the target yet, otherwise removes it.
+export function toggleLinkTarget(def: LinkSource, target: LinkTarget) {
+  const key = linkTargetKey(target);
+  const idx = def.targets.findIndex(t => linkTargetKey(t) === key);
+  if (idx === -1) def.targets.push(target);
+  else def.targets.splice(idx, 1);
+}
+
+export function removeLinksTo(sources: LinkSource[], target: LinkTarget) {
+  const key = linkTargetKey(target);
+  for (const def of sources) {
+    def.targets = def.targets.filter(t => linkTargetKey(t) !== key);
+  }
+}
+
+export function isDoorLinked(sources: LinkSource[]): boolean {
+  return sources.some(def => def.targets.some(t => t.kind === 'door'));
+}
@@ -0,0 +1,136 @@
+import type { Body, Engine } from 'matter-js';
+import type { LevelRect } from '../Game';
+import type { Player } from '../Player';
+import type { EventBus } from '../events';
+import type { Theme } from '../render/theme';
+import type { EntityRegistry } from './registry';
+
+// A sidebar control shown while the plugin's editor tool is active. Its value
+// is handed to `create` when the entity is placed.
+export type PluginSetting =
+  | { kind: 'number'; key: string; label: string; default: number; min?: number; max?: number; step?: number }
+  | { kind: 'boolean'; key: string; label: string; default: boolean }
+  | { kind: 'select'; key: string; label: string; default: string; options: Array<{ value: string; label: string }> };
+
+export type PluginSettingValues = Record<string, number | boolean | string>;
+
+export type PluginIssues = {
+  warn: (message: string, field?: string) => void;
+  error: (message: string, field?: string) => void;
+};
+
+export type PluginStepWorld = {
+  engine: Engine;
+  frame: number;
+  playerSlots: Array<Player | null>;
+  activeTargets: Set<string>;
+  events: EventBus;
+};
+
+export type PluginEntity<D extends LevelRect = LevelRect, S = unknown> = {
+  readonly id: number;
+  readonly kind: 'plugin';
+  readonly plugin: EntityPlugin<D, S>;
+  def: D;
+  body: Body;
+  state: S;
+};
+
+// A custom entity type. Defs live in the level file under `custom[type]` and
+// must be plain JSON unless `serialize` says otherwise.
+export type EntityPlugin<D extends LevelRect = LevelRect, S = unknown> = {
+  type: string;
+  name: string;
+  // 'rect' places by dragging like platforms, 'point' by clicking like checkpoints.
+  placement: 'rect' | 'point';
+  // Size of a point-placed entity.
+  size?: { w: number; h: number };
+  settings?: PluginSetting[];
+  // Called with the level file's entry once its x, y, w and h are validated.
+  parse(value: Record<string, unknown>, rect: LevelRect, issues: PluginIssues): D | null;
+  serialize?(def: D): unknown;
+  create(rect: LevelRect, settings: PluginSettingValues): D;
+  createBody(def: D): Body;
+  createState(def: D, body: Body): S;
+  // Runs once per fixed step after the built-in systems.
+  update?(entities: readonly PluginEntity<D, S>[], world: PluginStepWorld): void;
+  // Runs when the team respawns; without it the state is created afresh.
+  reset?(entity: PluginEntity<D, S>): void;
+  draw(ctx: CanvasRenderingContext2D, entity: PluginEntity<D, S>, theme: Theme): void;
+};
+
+const plugins = new Map<string, EntityPlugin>();
+
+// The registry holds plugins of every def and state type behind one type. Defs
+// and entities only ever reach the plugin that made them, so each call narrows
+// them back to that plugin's own types.
+function erasePlugin<D extends LevelRect, S>(plugin: EntityPlugin<D, S>): EntityPlugin {
+  const own = (entity: PluginEntity) => entity as PluginEntity<D, S>;
+  const { serialize, update, reset } = plugin;
+  return {
+    type: plugin.type,
+    name: plugin.name,
+    placement: plugin.placement,
+    size: plugin.size,
+    settings: plugin.settings,
+    parse: (value, rect, issues) => plugin.parse(value, rect, issues),
+    ...(serialize ? { serialize: def => serialize.call(plugin, def as D) } : {}),
+    create: (rect, settings) => plugin.create(rect, settings),
+    createBody: def => plugin.createBody(def as D),
+    createState: (def, body) => plugin.createState(def as D, body),
+    ...(update ? { update: (entities, world) => update.call(plugin, entities.map(own), world) } : {}),
+    ...(reset ? { reset: entity => reset.call(plugin, own(entity)) } : {}),
+    draw: (ctx, entity, theme) => plugin.draw(ctx, own(entity), theme)
+  };
+}
+
+// Returns a function that unregisters the plugin again.
+export function registerEntityPlugin<D extends LevelRect, S>(plugin: EntityPlugin<D, S>): () => void {
+  const entry = erasePlugin(plugin);
+  plugins.set(plugin.type, entry);
+  return () => {
+    if (plugins.get(plugin.type) === entry) plugins.delete(plugin.type);
+  };
+}
+
+export function getEntityPlugin(type: string): EntityPlugin | undefined {
+  return plugins.get(type);
+}
+
+export function listEntityPlugins(): EntityPlugin[] {
+  return [...plugins.values()];
+}
+
+export function defaultPluginSettings(plugin: EntityPlugin): PluginSettingValues {
+  const values: PluginSettingValues = {};
+  for (const setting of plugin.settings ?? []) values[setting.key] = setting.default;
+  return values;
+}
+
+// Coerces a value from the sidebar to the setting's type and range, or null
+// when the plugin has no such setting or the value doesn't fit it.
+export function normalizePluginSetting(
+  plugin: EntityPlugin,
+  key: string,
+  value: unknown
+): number | boolean | string | null {
+  const setting = plugin.settings?.find(s => s.key === key);
+  if (!setting) return null;
+  if (setting.kind === 'number') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+    return Math.max(setting.min ?? -Infinity, Math.min(setting.max ?? Infinity, value));
+  }
+  if (setting.kind === 'boolean') return typeof value === 'boolean' ? value : null;
+  return typeof value === 'string' && setting.options.some(o => o.value === value) ? value : null;
+}
+
+export function addPluginEntity(
+  plugin: EntityPlugin,
+  rect: LevelRect,
+  settings: PluginSettingValues,
+  entities: EntityRegistry,
+  persistLevel: () => void
+) {
+  entities.addPlugin(plugin, plugin.create(rect, settings));
+  persistLevel();
+}
@@ -0,0 +1,211 @@
+import { Composite, type Body, type Engine } from 'matter-js';
+import type { BlockDef, BridgeDef, ButtonDef, CheckpointDef, GateDef, LevelRect, SpikeDef } from '../Game';
+import { createBridgePathState, type BridgePathState } from '../systems/bridges';
+import { createGateRuntime, type GateRuntime } from '../systems/logic';
+import { createPlatformBody } from './platform';
+import { createBlockBody } from './block';
+import { createSpikeBody } from './spike';
+import { createBridgeBody } from './bridge';
+import { createButtonBody } from './button';
+import { createGateBody } from './gate';
+import { createCheckpointBody } from './checkpoint';
+import { removeLinksTo, type LinkSource } from './links';
+import type { EntityPlugin, PluginEntity } from './plugin';
+
+// What the level file stores for each kind of entity.
+export type EntityDefs = {
+  platform: LevelRect;
+  block: BlockDef;
+  spike: SpikeDef;
+  bridge: BridgeDef;
+  button: ButtonDef;
+  gate: GateDef;
+  checkpoint: CheckpointDef;
+};
+
+export type BlockState = { pushers: number };
+export type BridgeState = {
+  activated: boolean;
+  latched: boolean;
+  home: { x: number; y: number };
+  path: BridgePathState;
+};
+export type ButtonState = { pressed: boolean };
+
+// What only exists while the level runs and is rebuilt from the def on load.
+export type EntityStates = {
+  platform: null;
+  block: BlockState;
+  spike: null;
+  bridge: BridgeState;
+  button: ButtonState;
+  gate: GateRuntime;
+  checkpoint: null;
+};
+
+export type EntityKind = keyof EntityDefs;
+
+// The id is the registry's handle for the entity while the level is loaded. It
+// is handed out in load order, so reloading the same level gives the same ids.
+// Defs that other entities link to keep their own id from the level file.
+export type Entity<K extends EntityKind> = {
+  readonly id: number;
+  readonly kind: K;
+  def: EntityDefs[K];
+  body: Body;
+  state: EntityStates[K];
+};
+
+export type AnyEntity = { [K in EntityKind]: Entity<K> }[EntityKind];
+
+// Built-in entities and ones from entity type plugins.
+export type RegistryEntry = AnyEntity | PluginEntity;
+
+type EntityType<K extends EntityKind> = {
+  createBody: (def: EntityDefs[K]) => Body;
+  createState: (body: Body) => EntityStates[K];
+};
+
+const ENTITY_TYPES: { [K in EntityKind]: EntityType<K> } = {
+  platform: { createBody: createPlatformBody, createState: () => null },
+  block: { createBody: createBlockBody, createState: () => ({ pushers: 0 }) },
+  spike: { createBody: createSpikeBody, createState: () => null },
+  bridge: {
+    createBody: createBridgeBody,
+    createState: body => ({
+      activated: false,
+      latched: false,
+      home: { x: body.position.x, y: body.position.y },
+      path: createBridgePathState()
+    })
+  },
+  button: { createBody: createButtonBody, createState: () => ({ pressed: false }) },
+  gate: { createBody: createGateBody, createState: () => createGateRuntime() },
+  checkpoint: { createBody: createCheckpointBody, createState: () => null }
+};
+
+// Every placed entity in the level, with its body kept in the Matter world.
+export class EntityRegistry {
+  private readonly engine: Engine;
+  private readonly byId = new Map<number, RegistryEntry>();
+  private readonly byBody = new Map<Body, RegistryEntry>();
+  private byKind = createKindLists();
+  private byPlugin = new Map<string, PluginEntity[]>();
+  private nextId = 1;
+
+  constructor(engine: Engine) {
+    this.engine = engine;
+  }
+
+  add<K extends EntityKind>(kind: K, def: EntityDefs[K]): Entity<K> {
+    const type = ENTITY_TYPES[kind] as EntityType<K>;
+    const body = type.createBody(def);
+    const entity: Entity<K> = { id: this.nextId, kind, def, body, state: type.createState(body) };
+    this.nextId += 1;
+    this.byId.set(entity.id, entity as AnyEntity);
+    this.byBody.set(body, entity as AnyEntity);
+    (this.byKind[kind] as Entity<K>[]).push(entity);
+    Composite.add(this.engine.world, body);
+    return entity;
+  }
+
+  addPlugin(plugin: EntityPlugin, def: LevelRect): PluginEntity {
+    const body = plugin.createBody(def);
+    const entity: PluginEntity = { id: this.nextId, kind: 'plugin', plugin, def, body, state: plugin.createState(def, body) };
+    this.nextId += 1;
+    this.byId.set(entity.id, entity);
+    this.byBody.set(body, entity);
+    const list = this.byPlugin.get(plugin.type);
+    if (list) list.push(entity);
+    else this.byPlugin.set(plugin.type, [entity]);
+    Composite.add(this.engine.world, body);
+    return entity;
+  }
+
+  // Also drops every button and gate link that pointed at the entity.
+  remove(id: number): RegistryEntry | null {
+    const entity = this.byId.get(id);
+    if (!entity) return null;
+    Composite.remove(this.engine.world, entity.body);
+    this.byId.delete(id);
+    this.byBody.delete(entity.body);
+    const list: RegistryEntry[] =
+      entity.kind === 'plugin' ? this.byPlugin.get(entity.plugin.type) ?? [] : this.byKind[entity.kind];
+    list.splice(list.indexOf(entity), 1);
+    if (entity.kind === 'bridge' || entity.kind === 'spike' || entity.kind === 'gate') {
+      removeLinksTo(this.linkSources(), { kind: entity.kind, id: entity.def.id });
+    }
+    return entity;
+  }
+
+  get<K extends EntityKind>(kind: K, id: number): Entity<K> | undefined {
+    const entity = this.byId.get(id);
+    return entity?.kind === kind ? (entity as Entity<K>) : undefined;
+  }
+
+  fromBody<K extends EntityKind>(kind: K, body: Body): Entity<K> | undefined {
+    const entity = this.byBody.get(body);
+    return entity?.kind === kind ? (entity as Entity<K>) : undefined;
+  }
+
+  getPlugin(id: number): PluginEntity | undefined {
+    const entity = this.byId.get(id);
+    return entity?.kind === 'plugin' ? entity : undefined;
+  }
+
+  pluginFromBody(body: Body): PluginEntity | undefined {
+    const entity = this.byBody.get(body);
+    return entity?.kind === 'plugin' ? entity : undefined;
+  }
+
+  // In the order they were added. Callers must not add or remove while iterating.
+  list<K extends EntityKind>(kind: K): readonly Entity<K>[] {
+    return this.byKind[kind] as Entity<K>[];
+  }
+
+  defs<K extends EntityKind>(kind: K): EntityDefs[K][] {
+    return this.list(kind).map(e => e.def);
+  }
+
+  bodies(kind: EntityKind): Body[] {
+    return this.list(kind).map(e => e.body);
+  }
+
+  // Plugin entities of one type, or of every type, in the order they were added.
+  pluginEntities(type?: string): readonly PluginEntity[] {
+    if (type !== undefined) return this.byPlugin.get(type) ?? [];
+    return [...this.byPlugin.values()].flat();
+  }
+
+  linkSources(): LinkSource[] {
+    return [...this.defs('button'), ...this.defs('gate')];
+  }
+
+  // Swaps in a body built from the entity's current def, e.g. after a resize.
+  rebuildBody<K extends EntityKind>(entity: Entity<K> | PluginEntity) {
+    const entry = entity as RegistryEntry;
+    if (this.byId.get(entry.id) !== entry) return;
+    Composite.remove(this.engine.world, entry.body);
+    this.byBody.delete(entry.body);
+    entry.body = entry.kind === 'plugin' ? entry.plugin.createBody(entry.def) : createEntityBody(entry);
+    this.byBody.set(entry.body, entry);
+    Composite.add(this.engine.world, entry.body);
+  }
+
+  clear() {
+    for (const entity of this.byId.values()) Composite.remove(this.engine.world, entity.body);
+    this.byId.clear();
+    this.byBody.clear();
+    this.byKind = createKindLists();
+    this.byPlugin = new Map();
+    this.nextId = 1;
+  }
+}
+
+function createEntityBody<K extends EntityKind>(entity: Entity<K>): Body {
+  return (ENTITY_TYPES[entity.kind] as EntityType<K>).createBody(entity.def);
+}
+
+function createKindLists(): { [K in EntityKind]: Entity<K>[] } {
+  return { platform: [], block: [], spike: [], bridge: [], button: [], gate: [], checkpoint: [] };
+}
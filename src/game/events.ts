@@ -0,0 +1,52 @@
+// Gameplay moments raised by the simulation and its systems while stepping.
+// Blocks have no id in the level file, so their events carry the registry id.
+export type GameEvents = {
+  playerJoined: { slot: number };
+  playerLeft: { slot: number };
+  playerJumped: { slot: number };
+  playerDied: { slot: number; spikeId: number };
+  keyPickedUp: { slot: number };
+  doorUnlocked: { slot: number };
+  buttonPressed: { id: number };
+  buttonReleased: { id: number };
+  blockStarted: { id: number };
+  blockStopped: { id: number };
+  bridgeStarted: { id: number };
+  bridgeStopped: { id: number };
+  bridgeArrived: { id: number };
+  checkpointReached: { id: number };
+  levelCompleted: { frame: number };
+};
+
+export type GameEventType = keyof GameEvents;
+
+export type GameEventListener<K extends GameEventType> = (event: GameEvents[K]) => void;
+
+export type EventBus = {
+  // Returns a function that removes the listener again.
+  on: <K extends GameEventType>(type: K, listener: GameEventListener<K>) => () => void;
+  emit: <K extends GameEventType>(type: K, event: GameEvents[K]) => void;
+};
+
+export function createEventBus(): EventBus {
+  const listeners = new Map<GameEventType, Set<GameEventListener<never>>>();
+  return {
+    on: (type, listener) => {
+      let set = listeners.get(type);
+      if (!set) {
+        set = new Set();
+        listeners.set(type, set);
+      }
+      set.add(listener);
+      return () => {
+        set.delete(listener);
+      };
+    },
+    emit: (type, event) => {
+      const set = listeners.get(type) as Set<GameEventListener<typeof type>> | undefined;
+      if (!set) return;
+      // A listener may unsubscribe while the event is being delivered.
+      for (const listener of [...set]) listener(event);
+    }
+  };
+}
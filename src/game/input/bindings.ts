@@ -0,0 +1,88 @@
+export type InputAction = 'left' | 'right' | 'jump' | 'leave' | 'pause';
+
+export const INPUT_ACTIONS: InputAction[] = ['left', 'right', 'jump', 'leave', 'pause'];
+
+// Keys are KeyboardEvent.code values, so WASD stays in place on any layout.
+export type KeyboardProfile = {
+  name: string;
+  keys: Record<InputAction, string[]>;
+};
+
+const KEYBOARD_BINDINGS_KEY = 'pico_keyboard_bindings_v1';
+
+export function createDefaultKeyboardProfiles(): KeyboardProfile[] {
+  return [
+    {
+      name: 'Arrows',
+      keys: { left: ['ArrowLeft'], right: ['ArrowRight'], jump: ['Space', 'ArrowUp'], leave: ['Backspace'], pause: ['Escape'] }
+    },
+    {
+      name: 'WASD',
+      keys: { left: ['KeyA'], right: ['KeyD'], jump: ['KeyW'], leave: ['KeyQ'], pause: ['Escape'] }
+    }
+  ];
+}
+
+export function readKeyboardProfiles(): KeyboardProfile[] {
+  const defaults = createDefaultKeyboardProfiles();
+  const raw = localStorage.getItem(KEYBOARD_BINDINGS_KEY);
+  if (!raw) return defaults;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return defaults;
+    // Missing or malformed entries fall back to the default binding for that action.
+    return defaults.map((fallback, i) => {
+      const stored = parsed[i] as Partial<KeyboardProfile> | undefined;
+      const keys = { ...fallback.keys };
+      for (const action of INPUT_ACTIONS) {
+        const codes = stored?.keys?.[action];
+        if (Array.isArray(codes) && codes.every(c => typeof c === 'string')) keys[action] = [...codes];
+      }
+      return { name: fallback.name, keys };
+    });
+  } catch {
+    return defaults;
+  }
+}
+
+export function writeKeyboardProfiles(profiles: KeyboardProfile[]) {
+  localStorage.setItem(KEYBOARD_BINDINGS_KEY, JSON.stringify(profiles));
+}
+
+export function findKeyboardAction(
+  profiles: KeyboardProfile[],
+  code: string
+): { profile: number; action: InputAction } | null {
+  for (let profile = 0; profile < profiles.length; profile += 1) {
+    for (const action of INPUT_ACTIONS) {
+      if (profiles[profile].keys[action].includes(code)) return { profile, action };
+    }
+  }
+  return null;
+}
+
+// Binds a single key to the action. Pause may be shared between profiles; any
+// other use of the key is dropped so one key never drives two players.
+export function setKeyBinding(
+  profiles: KeyboardProfile[],
+  profile: number,
+  action: InputAction,
+  code: string
+): KeyboardProfile[] {
+  return profiles.map((p, i) => {
+    const keys = { ...p.keys };
+    for (const other of INPUT_ACTIONS) {
+      const shared = action === 'pause' && other === 'pause';
+      if (!shared) keys[other] = keys[other].filter(c => c !== code);
+    }
+    if (i === profile) keys[action] = [code];
+    return { ...p, keys };
+  });
+}
+
+export function keyLabel(code: string): string {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+  return arrows[code] ?? code;
+}
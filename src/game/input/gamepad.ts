@@ -0,0 +1,106 @@
+// Button and axis indices follow the browser's "standard" gamepad layout by
+// default; pads that report something else get a stored mapping per gamepad.id.
+export type GamepadMapping = {
+  axis: number;
+  deadzone: number;
+  jump: number;
+  menu: number[];
+  back: number;
+  retry: number;
+  dpad: boolean;
+  dpadLeft: number;
+  dpadRight: number;
+};
+
+export type GamepadField = 'axis' | 'jump' | 'menu' | 'back' | 'retry' | 'dpadLeft' | 'dpadRight';
+
+export type GamepadBaseline = { buttons: boolean[]; axes: number[] };
+
+// Player already ignores stick input below this, so a smaller deadzone would do nothing.
+export const MIN_DEADZONE = 0.2;
+export const MAX_DEADZONE = 0.9;
+const AXIS_CAPTURE_THRESHOLD = 0.6;
+const GAMEPAD_MAPPINGS_KEY = 'pico_gamepad_mappings_v1';
+
+export function createDefaultGamepadMapping(): GamepadMapping {
+  return { axis: 0, deadzone: MIN_DEADZONE, jump: 0, menu: [9, 16], back: 8, retry: 3, dpad: true, dpadLeft: 14, dpadRight: 15 };
+}
+
+function isIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function sanitizeMapping(value: unknown): GamepadMapping {
+  const mapping = createDefaultGamepadMapping();
+  if (!value || typeof value !== 'object') return mapping;
+  const v = value as Partial<Record<keyof GamepadMapping, unknown>>;
+  if (isIndex(v.axis)) mapping.axis = v.axis;
+  if (typeof v.deadzone === 'number' && Number.isFinite(v.deadzone)) {
+    mapping.deadzone = Math.max(MIN_DEADZONE, Math.min(MAX_DEADZONE, v.deadzone));
+  }
+  if (isIndex(v.jump)) mapping.jump = v.jump;
+  if (Array.isArray(v.menu) && v.menu.every(isIndex)) mapping.menu = [...v.menu];
+  if (isIndex(v.back)) mapping.back = v.back;
+  if (isIndex(v.retry)) mapping.retry = v.retry;
+  if (typeof v.dpad === 'boolean') mapping.dpad = v.dpad;
+  if (isIndex(v.dpadLeft)) mapping.dpadLeft = v.dpadLeft;
+  if (isIndex(v.dpadRight)) mapping.dpadRight = v.dpadRight;
+  return mapping;
+}
+
+export function readGamepadMappings(): Map<string, GamepadMapping> {
+  const mappings = new Map<string, GamepadMapping>();
+  const raw = localStorage.getItem(GAMEPAD_MAPPINGS_KEY);
+  if (!raw) return mappings;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return mappings;
+    for (const [id, value] of Object.entries(parsed)) mappings.set(id, sanitizeMapping(value));
+  } catch {
+    // Unreadable mappings fall back to the standard layout.
+  }
+  return mappings;
+}
+
+export function writeGamepadMappings(mappings: Map<string, GamepadMapping>) {
+  localStorage.setItem(GAMEPAD_MAPPINGS_KEY, JSON.stringify(Object.fromEntries(mappings)));
+}
+
+export function isButtonPressed(gp: Gamepad, index: number): boolean {
+  return Boolean(gp.buttons[index]?.pressed);
+}
+
+export function readGamepadAxisX(gp: Gamepad, mapping: GamepadMapping): number {
+  const stick = gp.axes[mapping.axis] ?? 0;
+  if (Math.abs(stick) >= mapping.deadzone) return Math.max(-1, Math.min(1, stick));
+  if (!mapping.dpad) return 0;
+  return (isButtonPressed(gp, mapping.dpadLeft) ? -1 : 0) + (isButtonPressed(gp, mapping.dpadRight) ? 1 : 0);
+}
+
+export function captureGamepadBaseline(gp: Gamepad): GamepadBaseline {
+  return { buttons: gp.buttons.map(b => b.pressed), axes: [...gp.axes] };
+}
+
+// Looks for a button or axis that became active since the baseline. Inputs that
+// were already held when the capture started only count after being released.
+export function detectGamepadInput(gp: Gamepad, baseline: GamepadBaseline, field: GamepadField): number | null {
+  if (field === 'axis') {
+    for (let i = 0; i < gp.axes.length; i += 1) {
+      const moved = Math.abs(gp.axes[i]) > AXIS_CAPTURE_THRESHOLD;
+      if (moved && Math.abs(baseline.axes[i] ?? 0) <= AXIS_CAPTURE_THRESHOLD) return i;
+      if (!moved) baseline.axes[i] = gp.axes[i];
+    }
+    return null;
+  }
+  for (let i = 0; i < gp.buttons.length; i += 1) {
+    const pressed = gp.buttons[i].pressed;
+    if (pressed && !baseline.buttons[i]) return i;
+    if (!pressed) baseline.buttons[i] = false;
+  }
+  return null;
+}
+
+export function assignGamepadInput(mapping: GamepadMapping, field: GamepadField, index: number): GamepadMapping {
+  if (field === 'menu') return { ...mapping, menu: [index] };
+  return { ...mapping, [field]: index };
+}
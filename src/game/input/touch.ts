@@ -0,0 +1,93 @@
+// Two touch players share one screen: the left half drives side 0 and the right
+// half side 1. Each side has a floating stick, a jump button and a leave button.
+export type TouchSide = {
+  stick: { id: number; originX: number; originY: number; x: number; y: number } | null;
+  jumpId: number | null;
+  leaveId: number | null;
+};
+
+export type TouchSideLayout = {
+  stick: { x: number; y: number };
+  jump: { x: number; y: number };
+  leave: { x: number; y: number };
+};
+
+export type TouchPad = { axes: number[]; buttons: Array<{ pressed: boolean }> };
+
+export const TOUCH_SIDES = 2;
+export const STICK_RADIUS = 70;
+export const JUMP_RADIUS = 50;
+export const LEAVE_RADIUS = 26;
+
+export function createTouchSide(): TouchSide {
+  return { stick: null, jumpId: null, leaveId: null };
+}
+
+export function touchLayout(width: number, height: number): TouchSideLayout[] {
+  return [
+    {
+      stick: { x: 110, y: height - 110 },
+      jump: { x: width / 2 - 90, y: height - 90 },
+      leave: { x: 60, y: height - 240 }
+    },
+    {
+      stick: { x: width - 110, y: height - 110 },
+      jump: { x: width / 2 + 90, y: height - 90 },
+      leave: { x: width - 60, y: height - 240 }
+    }
+  ];
+}
+
+function within(point: { x: number; y: number }, x: number, y: number, radius: number): boolean {
+  return Math.hypot(x - point.x, y - point.y) <= radius;
+}
+
+// Claims the touch for whatever control it landed on. Returns the side and
+// whether the touch is a leave press, or null if the side's control is taken.
+export function touchStart(
+  sides: TouchSide[],
+  layout: TouchSideLayout[],
+  width: number,
+  id: number,
+  x: number,
+  y: number
+): { side: number; leave: boolean } | null {
+  const side = x < width / 2 ? 0 : 1;
+  const state = sides[side];
+  const controls = layout[side];
+  if (within(controls.leave, x, y, LEAVE_RADIUS * 1.4)) {
+    if (state.leaveId !== null) return null;
+    state.leaveId = id;
+    return { side, leave: true };
+  }
+  if (within(controls.jump, x, y, JUMP_RADIUS * 1.3)) {
+    if (state.jumpId !== null) return null;
+    state.jumpId = id;
+    return { side, leave: false };
+  }
+  if (state.stick) return null;
+  state.stick = { id, originX: x, originY: y, x, y };
+  return { side, leave: false };
+}
+
+export function touchMove(sides: TouchSide[], id: number, x: number, y: number) {
+  for (const state of sides) {
+    if (state.stick?.id !== id) continue;
+    state.stick.x = x;
+    state.stick.y = y;
+  }
+}
+
+export function touchEnd(sides: TouchSide[], id: number) {
+  for (const state of sides) {
+    if (state.stick?.id === id) state.stick = null;
+    if (state.jumpId === id) state.jumpId = null;
+    if (state.leaveId === id) state.leaveId = null;
+  }
+}
+
+// Same shape as a Gamepad's axes and buttons, so touch reads like any other pad.
+export function readTouchPad(state: TouchSide): TouchPad {
+  const axisX = state.stick ? Math.max(-1, Math.min(1, (state.stick.x - state.stick.originX) / STICK_RADIUS)) : 0;
+  return { axes: [axisX], buttons: [{ pressed: state.jumpId !== null }] };
+}
@@ -0,0 +1,97 @@
+import type { LevelState } from '../Game';
+import type { Player } from '../Player';
+
+// One sample per fixed step: each slot's body position, or null while the slot is empty.
+export type GhostFrame = Array<[number, number] | null>;
+
+export type GhostRun = {
+  levelHash: string;
+  frames: GhostFrame[];
+};
+
+const GHOST_KEY_PREFIX = 'pico_ghost_v1:';
+const GHOST_VISIBLE_KEY = 'pico_ghost_visible_v1';
+
+export function libraryGhostKey(levelId: string): string {
+  return `lib:${levelId}`;
+}
+
+export function packGhostKey(packId: string, index?: number): string {
+  return index === undefined ? `pack:${packId}:` : `pack:${packId}:${index}`;
+}
+
+// A ghost only belongs to the exact level it was recorded on, so edits invalidate it.
+// The theme is cosmetic, so restyling a level keeps its ghost and best time.
+export function hashLevel(level: LevelState): string {
+  const json = JSON.stringify({ ...level, theme: undefined });
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i += 1) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function sampleGhostFrame(players: Array<Player | null>): GhostFrame {
+  return players.map(p => (p ? [Math.round(p.body.position.x), Math.round(p.body.position.y)] : null));
+}
+
+export function ghostFrameAt(run: GhostRun, frame: number): GhostFrame | null {
+  if (run.frames.length === 0) return null;
+  return run.frames[Math.max(0, Math.min(run.frames.length - 1, frame))];
+}
+
+function isGhostFrame(value: unknown): value is GhostFrame {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      s => s === null || (Array.isArray(s) && s.length === 2 && typeof s[0] === 'number' && typeof s[1] === 'number')
+    )
+  );
+}
+
+export function readGhost(key: string, levelHash: string): GhostRun | null {
+  const raw = localStorage.getItem(GHOST_KEY_PREFIX + key);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<GhostRun>;
+    if (parsed.levelHash !== levelHash || !Array.isArray(parsed.frames) || !parsed.frames.every(isGhostFrame)) {
+      return null;
+    }
+    return { levelHash, frames: parsed.frames };
+  } catch {
+    return null;
+  }
+}
+
+export function writeGhost(key: string, run: GhostRun) {
+  try {
+    localStorage.setItem(GHOST_KEY_PREFIX + key, JSON.stringify(run));
+  } catch (err) {
+    // A long run can exceed the storage quota; keep playing without a saved ghost.
+    console.warn('Ghost could not be saved', err);
+  }
+}
+
+export function removeGhost(key: string) {
+  localStorage.removeItem(GHOST_KEY_PREFIX + key);
+}
+
+// Removes every ghost whose key starts with the given key, e.g. all levels of a pack.
+export function removeGhosts(keyPrefix: string) {
+  const prefix = GHOST_KEY_PREFIX + keyPrefix;
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i += 1) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) keys.push(key);
+  }
+  for (const key of keys) localStorage.removeItem(key);
+}
+
+export function readGhostVisible(): boolean {
+  return localStorage.getItem(GHOST_VISIBLE_KEY) !== '0';
+}
+
+export function writeGhostVisible(visible: boolean) {
+  localStorage.setItem(GHOST_VISIBLE_KEY, visible ? '1' : '0');
+}
@@ -0,0 +1,127 @@
+export type LevelLibraryEntry = {
+  id: string;
+  name: string;
+  updatedAt: number;
+};
+
+type LibraryIndex = {
+  levels: LevelLibraryEntry[];
+  lastOpenedId: string | null;
+};
+
+const LIBRARY_INDEX_KEY = 'pico_library_v1';
+const LIBRARY_LEVEL_PREFIX = 'pico_library_level_v1:';
+const LEGACY_LEVEL_KEY = 'pico_level_v1';
+
+function createLevelId(): string {
+  return `lvl_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function writeIndex(index: LibraryIndex) {
+  localStorage.setItem(LIBRARY_INDEX_KEY, JSON.stringify(index));
+}
+
+function readIndex(): LibraryIndex {
+  const raw = localStorage.getItem(LIBRARY_INDEX_KEY);
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as Partial<LibraryIndex>;
+      const levels = Array.isArray(parsed.levels)
+        ? parsed.levels.filter(
+            (e): e is LevelLibraryEntry =>
+              Boolean(e) && typeof e.id === 'string' && typeof e.name === 'string' && typeof e.updatedAt === 'number'
+          )
+        : [];
+      const lastOpenedId = typeof parsed.lastOpenedId === 'string' ? parsed.lastOpenedId : null;
+      return { levels, lastOpenedId };
+    } catch {
+      // Fall through and rebuild the index.
+    }
+  }
+
+  // First run with the library: adopt the level saved under the old single key.
+  const index: LibraryIndex = { levels: [], lastOpenedId: null };
+  const legacy = localStorage.getItem(LEGACY_LEVEL_KEY);
+  if (legacy) {
+    const entry: LevelLibraryEntry = { id: createLevelId(), name: 'Level 1', updatedAt: Date.now() };
+    localStorage.setItem(LIBRARY_LEVEL_PREFIX + entry.id, legacy);
+    localStorage.removeItem(LEGACY_LEVEL_KEY);
+    index.levels.push(entry);
+    index.lastOpenedId = entry.id;
+  }
+  writeIndex(index);
+  return index;
+}
+
+export function listLibraryLevels(): LevelLibraryEntry[] {
+  return readIndex().levels.map(e => ({ ...e }));
+}
+
+export function getLibraryEntry(id: string): LevelLibraryEntry | null {
+  return readIndex().levels.find(e => e.id === id) ?? null;
+}
+
+export function getLastOpenedLevelId(): string | null {
+  const index = readIndex();
+  if (index.lastOpenedId && index.levels.some(e => e.id === index.lastOpenedId)) return index.lastOpenedId;
+  return index.levels[0]?.id ?? null;
+}
+
+export function setLastOpenedLevelId(id: string) {
+  const index = readIndex();
+  index.lastOpenedId = id;
+  writeIndex(index);
+}
+
+export function createLibraryLevel(name: string, json: string | null): LevelLibraryEntry {
+  const index = readIndex();
+  const entry: LevelLibraryEntry = { id: createLevelId(), name: uniqueName(index, name), updatedAt: Date.now() };
+  if (json !== null) localStorage.setItem(LIBRARY_LEVEL_PREFIX + entry.id, json);
+  index.levels.push(entry);
+  writeIndex(index);
+  return { ...entry };
+}
+
+export function renameLibraryLevel(id: string, name: string): LevelLibraryEntry | null {
+  const index = readIndex();
+  const entry = index.levels.find(e => e.id === id);
+  if (!entry) return null;
+  const trimmed = name.trim();
+  if (!trimmed) return { ...entry };
+  entry.name = uniqueName(index, trimmed, id);
+  writeIndex(index);
+  return { ...entry };
+}
+
+export function deleteLibraryLevel(id: string): boolean {
+  const index = readIndex();
+  const idx = index.levels.findIndex(e => e.id === id);
+  if (idx === -1) return false;
+  index.levels.splice(idx, 1);
+  if (index.lastOpenedId === id) index.lastOpenedId = index.levels[0]?.id ?? null;
+  localStorage.removeItem(LIBRARY_LEVEL_PREFIX + id);
+  writeIndex(index);
+  return true;
+}
+
+export function readLibraryLevel(id: string): string | null {
+  return localStorage.getItem(LIBRARY_LEVEL_PREFIX + id);
+}
+
+export function writeLibraryLevel(id: string, json: string) {
+  const index = readIndex();
+  const entry = index.levels.find(e => e.id === id);
+  if (!entry) return;
+  localStorage.setItem(LIBRARY_LEVEL_PREFIX + id, json);
+  entry.updatedAt = Date.now();
+  writeIndex(index);
+}
+
+function uniqueName(index: LibraryIndex, name: string, ignoreId?: string): string {
+  const base = name.trim() || 'Untitled level';
+  const taken = new Set(index.levels.filter(e => e.id !== ignoreId).map(e => e.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} (${n})`)) n += 1;
+  return `${base} (${n})`;
+}
@@ -0,0 +1,113 @@
+import type { LevelIssue } from './parse';
+
+export const LEVEL_VERSION = 5;
+
+type Migration = {
+  from: number;
+  to: number;
+  migrate: (input: unknown, issues: LevelIssue[]) => unknown;
+};
+
+// Each entry upgrades raw level JSON by exactly one version. The bare array of
+// platform rects that predates the object format is treated as v0.
+const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    to: 1,
+    migrate: (input, issues) => {
+      issues.push({
+        severity: 'warning',
+        path: '$',
+        message: 'Legacy platform-only level upgraded to v1'
+      });
+      return { version: 1, platforms: input };
+    }
+  },
+  {
+    // v2: buttons drive a list of targets instead of a single bridge, and spikes
+    // get ids so they can be linked.
+    from: 1,
+    to: 2,
+    migrate: input => {
+      const obj: Record<string, unknown> = { ...(input as Record<string, unknown>), version: 2 };
+      const isObject = (value: unknown): value is Record<string, unknown> =>
+        Boolean(value) && typeof value === 'object';
+      let nextId = 1;
+      for (const list of [obj.bridges, obj.buttons]) {
+        if (!Array.isArray(list)) continue;
+        for (const item of list) {
+          if (isObject(item) && typeof item.id === 'number') nextId = Math.max(nextId, Math.round(item.id) + 1);
+        }
+      }
+      if (Array.isArray(obj.spikes)) {
+        obj.spikes = obj.spikes.map(item => (isObject(item) ? { ...item, id: nextId++ } : item));
+      }
+      if (Array.isArray(obj.buttons)) {
+        obj.buttons = obj.buttons.map(item => {
+          if (!isObject(item)) return item;
+          const { targetBridgeId, ...rest } = item;
+          const targets = typeof targetBridgeId === 'number' ? [{ kind: 'bridge', id: targetBridgeId }] : [];
+          return { ...rest, targets };
+        });
+      }
+      return obj;
+    }
+  },
+  {
+    // v3: logic gates. Older files simply have none.
+    from: 2,
+    to: 3,
+    migrate: input => ({ ...(input as Record<string, unknown>), version: 3, gates: [] })
+  },
+  {
+    // v4: bridges may carry an optional waypoint path. Nothing to convert.
+    from: 3,
+    to: 4,
+    migrate: input => ({ ...(input as Record<string, unknown>), version: 4 })
+  },
+  {
+    // v5: checkpoint flags.
+    from: 4,
+    to: 5,
+    migrate: input => ({ ...(input as Record<string, unknown>), version: 5, checkpoints: [] })
+  }
+];
+
+export function detectLevelVersion(input: unknown, issues: LevelIssue[]): number | null {
+  if (Array.isArray(input)) return 0;
+  if (!input || typeof input !== 'object') {
+    issues.push({ severity: 'error', path: '$', message: 'Level must be a JSON object' });
+    return null;
+  }
+  const version = (input as { version?: unknown }).version;
+  if (version === undefined || version === null) return 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    issues.push({ severity: 'error', path: '$.version', message: 'Version must be a non-negative integer' });
+    return null;
+  }
+  if (version > LEVEL_VERSION) {
+    issues.push({
+      severity: 'error',
+      path: '$.version',
+      message: `Level version ${version} is newer than supported version ${LEVEL_VERSION}`
+    });
+    return null;
+  }
+  return version;
+}
+
+export function migrateLevel(input: unknown, issues: LevelIssue[]): unknown {
+  let version = detectLevelVersion(input, issues);
+  if (version === null) return null;
+  let data = input;
+  while (version < LEVEL_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) {
+      issues.push({ severity: 'error', path: '$.version', message: `No migration from version ${version}` });
+      return null;
+    }
+    data = step.migrate(data, issues);
+    version = step.to;
+  }
+  return data;
+}
@@ -0,0 +1,169 @@
+import type { LevelConfig, LevelState } from '../Game';
+import { parseLevelState, type LevelIssue } from './parse';
+
+export const PACK_FORMAT = 'pico-pack';
+export const PACK_VERSION = 1;
+
+export type LevelPackMeta = {
+  id: string;
+  name: string;
+  author?: string;
+  description?: string;
+};
+
+export type LevelPack = {
+  format: typeof PACK_FORMAT;
+  version: number;
+  meta: LevelPackMeta;
+  levels: LevelState[];
+};
+
+export type LevelPackParseResult = {
+  pack: LevelPack | null;
+  issues: LevelIssue[];
+};
+
+export type PackProgress = {
+  currentIndex: number;
+  completed: number[];
+};
+
+const PACK_INDEX_KEY = 'pico_packs_v1';
+const PACK_KEY_PREFIX = 'pico_pack_v1:';
+const PACK_PROGRESS_PREFIX = 'pico_pack_progress_v1:';
+
+export function createPackId(): string {
+  return `pack_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function buildLevelPack(meta: LevelPackMeta, levels: LevelState[]): LevelPack {
+  return { format: PACK_FORMAT, version: PACK_VERSION, meta, levels };
+}
+
+export function parseLevelPackJson(json: string, fallbackConfig: LevelConfig): LevelPackParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Invalid JSON';
+    return { pack: null, issues: [{ severity: 'error', path: '$', message }] };
+  }
+
+  const issues: LevelIssue[] = [];
+  const error = (path: string, message: string) => {
+    issues.push({ severity: 'error', path, message });
+  };
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    error('$', 'Level pack must be a JSON object');
+    return { pack: null, issues };
+  }
+  const obj = parsed as { format?: unknown; version?: unknown; meta?: unknown; levels?: unknown };
+
+  if (obj.format !== PACK_FORMAT) {
+    error('$.format', `Expected "${PACK_FORMAT}"`);
+  }
+  if (typeof obj.version !== 'number' || !Number.isInteger(obj.version) || obj.version < 1) {
+    error('$.version', 'Version must be a positive integer');
+  } else if (obj.version > PACK_VERSION) {
+    error('$.version', `Pack version ${obj.version} is newer than supported version ${PACK_VERSION}`);
+  }
+
+  let meta: LevelPackMeta | null = null;
+  if (!obj.meta || typeof obj.meta !== 'object') {
+    error('$.meta', 'Expected an object with pack metadata');
+  } else {
+    const m = obj.meta as { id?: unknown; name?: unknown; author?: unknown; description?: unknown };
+    if (typeof m.name !== 'string' || !m.name.trim()) {
+      error('$.meta.name', 'Expected a non-empty string');
+    } else {
+      let id = typeof m.id === 'string' && m.id.trim() ? m.id.trim() : '';
+      if (!id) {
+        id = createPackId();
+        issues.push({ severity: 'warning', path: '$.meta.id', message: `Missing pack id, assigned ${id}` });
+      }
+      meta = {
+        id,
+        name: m.name.trim(),
+        ...(typeof m.author === 'string' ? { author: m.author } : {}),
+        ...(typeof m.description === 'string' ? { description: m.description } : {})
+      };
+    }
+  }
+
+  const levels: LevelState[] = [];
+  if (!Array.isArray(obj.levels)) {
+    error('$.levels', 'Expected an array of levels');
+  } else if (obj.levels.length === 0) {
+    error('$.levels', 'A level pack needs at least one level');
+  } else {
+    obj.levels.forEach((item, i) => {
+      const result = parseLevelState(item, fallbackConfig);
+      for (const issue of result.issues) {
+        issues.push({ ...issue, path: `$.levels[${i}]${issue.path.slice(1)}` });
+      }
+      if (result.level) levels.push(result.level);
+    });
+  }
+
+  if (!meta || issues.some(issue => issue.severity === 'error')) return { pack: null, issues };
+  return { pack: buildLevelPack(meta, levels), issues };
+}
+
+export function listStoredPacks(): LevelPackMeta[] {
+  const raw = localStorage.getItem(PACK_INDEX_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (m): m is LevelPackMeta => Boolean(m) && typeof m.id === 'string' && typeof m.name === 'string'
+    );
+  } catch {
+    return [];
+  }
+}
+
+// Replacing a stored pack starts its progress over, since the old indices may
+// point at levels that changed or no longer exist.
+export function storePack(pack: LevelPack) {
+  localStorage.setItem(PACK_KEY_PREFIX + pack.meta.id, JSON.stringify(pack));
+  localStorage.removeItem(PACK_PROGRESS_PREFIX + pack.meta.id);
+  const index = listStoredPacks().filter(m => m.id !== pack.meta.id);
+  index.push(pack.meta);
+  localStorage.setItem(PACK_INDEX_KEY, JSON.stringify(index));
+}
+
+export function readStoredPack(id: string, fallbackConfig: LevelConfig): LevelPack | null {
+  const json = localStorage.getItem(PACK_KEY_PREFIX + id);
+  if (!json) return null;
+  return parseLevelPackJson(json, fallbackConfig).pack;
+}
+
+export function removeStoredPack(id: string) {
+  localStorage.removeItem(PACK_KEY_PREFIX + id);
+  localStorage.removeItem(PACK_PROGRESS_PREFIX + id);
+  const index = listStoredPacks().filter(m => m.id !== id);
+  localStorage.setItem(PACK_INDEX_KEY, JSON.stringify(index));
+}
+
+export function readPackProgress(id: string, levelCount: number): PackProgress {
+  const fresh: PackProgress = { currentIndex: 0, completed: [] };
+  const raw = localStorage.getItem(PACK_PROGRESS_PREFIX + id);
+  if (!raw) return fresh;
+  try {
+    const parsed = JSON.parse(raw) as Partial<PackProgress>;
+    const currentIndex =
+      typeof parsed.currentIndex === 'number' ? Math.max(0, Math.min(levelCount - 1, Math.round(parsed.currentIndex))) : 0;
+    const completed = Array.isArray(parsed.completed)
+      ? parsed.completed.filter((i): i is number => typeof i === 'number' && i >= 0 && i < levelCount)
+      : [];
+    return { currentIndex, completed };
+  } catch {
+    return fresh;
+  }
+}
+
+export function writePackProgress(id: string, progress: PackProgress) {
+  localStorage.setItem(PACK_PROGRESS_PREFIX + id, JSON.stringify(progress));
+}
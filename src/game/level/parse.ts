@@ -0,0 +1,403 @@
+import type { BridgeDef, BridgePath, ButtonDef, CheckpointDef, GateDef, GateKind, LevelConfig, LevelRect, LevelState, LinkTarget, SpikeDef } from '../Game';
+import { DEFAULT_GATE_DELAY_FRAMES, GATE_KINDS } from '../entities/gate';
+import { DEFAULT_BRIDGE_PATH_SPEED, MAX_BRIDGE_PATH_SPEED } from '../entities/bridge';
+import { DEFAULT_BLOCK_REQUIRED } from '../entities/block';
+import { linkTargetKey } from '../entities/links';
+import { LEVEL_VERSION, migrateLevel } from './migrations';
+import { isThemeId, type ThemeId } from '../render/theme';
+import { getEntityPlugin } from '../entities/plugin';
+
+export type LevelIssue = {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+};
+
+export type LevelParseResult = {
+  level: LevelState | null;
+  issues: LevelIssue[];
+};
+
+export function parseLevelJson(json: string, fallbackConfig: LevelConfig): LevelParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Invalid JSON';
+    return { level: null, issues: [{ severity: 'error', path: '$', message }] };
+  }
+  return parseLevelState(parsed, fallbackConfig);
+}
+
+export function parseLevelState(input: unknown, fallbackConfig: LevelConfig): LevelParseResult {
+  const issues: LevelIssue[] = [];
+  const migrated = migrateLevel(input, issues);
+  if (!migrated) return { level: null, issues };
+
+  const error = (path: string, message: string) => {
+    issues.push({ severity: 'error', path, message });
+  };
+  const warn = (path: string, message: string) => {
+    issues.push({ severity: 'warning', path, message });
+  };
+
+  const isObject = (value: unknown): value is Record<string, unknown> => Boolean(value) && typeof value === 'object';
+
+  const parseRect = (value: unknown, path: string): LevelRect | null => {
+    if (!isObject(value)) {
+      error(path, 'Expected an object with x, y, w, h');
+      return null;
+    }
+    let ok = true;
+    for (const field of ['x', 'y', 'w', 'h'] as const) {
+      if (typeof value[field] !== 'number' || !Number.isFinite(value[field])) {
+        error(`${path}.${field}`, 'Expected a number');
+        ok = false;
+      }
+    }
+    if (!ok) return null;
+    const r = value as LevelRect;
+    if (r.w <= 0 || r.h <= 0) {
+      error(path, 'Width and height must be positive');
+      return null;
+    }
+    return { x: r.x, y: r.y, w: r.w, h: r.h };
+  };
+
+  const parsePoint = (value: unknown, path: string): { x: number; y: number } | null => {
+    if (value === null || value === undefined) return null;
+    if (!isObject(value) || typeof value.x !== 'number' || typeof value.y !== 'number') {
+      error(path, 'Expected an object with numeric x and y');
+      return null;
+    }
+    return { x: value.x, y: value.y };
+  };
+
+  const parseList = <T>(value: unknown, path: string, parseItem: (item: unknown, itemPath: string) => T | null): T[] => {
+    if (value === null || value === undefined) return [];
+    if (!Array.isArray(value)) {
+      error(path, 'Expected an array');
+      return [];
+    }
+    const out: T[] = [];
+    value.forEach((item, i) => {
+      const parsed = parseItem(item, `${path}[${i}]`);
+      if (parsed) out.push(parsed);
+    });
+    return out;
+  };
+
+  const clampInt = (value: number, min: number, max: number, path: string): number => {
+    const clamped = Math.max(min, Math.min(max, Math.round(value)));
+    if (clamped !== value) warn(path, `Value ${value} adjusted to ${clamped}`);
+    return clamped;
+  };
+
+  const obj = migrated as Record<string, unknown>;
+
+  let config: LevelConfig = fallbackConfig;
+  if (obj.config !== null && obj.config !== undefined) {
+    const c = obj.config;
+    if (!isObject(c) || typeof c.width !== 'number' || typeof c.height !== 'number') {
+      error('$.config', 'Expected an object with numeric width and height');
+    } else if (c.width <= 0 || c.height <= 0) {
+      error('$.config', 'Width and height must be positive');
+    } else {
+      config = { width: c.width, height: c.height };
+    }
+  } else {
+    warn('$.config', 'Missing level size, using the current size');
+  }
+
+  if (!Array.isArray(obj.platforms)) error('$.platforms', 'Expected an array');
+  const platforms = parseList(obj.platforms, '$.platforms', parseRect);
+
+  const door = obj.door === null || obj.door === undefined ? null : parseRect(obj.door, '$.door');
+  const spawn = parsePoint(obj.spawn, '$.spawn');
+  const key = parsePoint(obj.key, '$.key');
+
+  const blocks = parseList(obj.blocks, '$.blocks', (item, path) => {
+    const rect = parseRect(item, path);
+    if (!rect || !isObject(item)) return null;
+    if (typeof item.allowedPlayer === 'number') {
+      if (item.required !== undefined) warn(`${path}.required`, 'Ignored because allowedPlayer is set');
+      return { ...rect, allowedPlayer: clampInt(item.allowedPlayer, 0, 3, `${path}.allowedPlayer`) };
+    }
+    if (typeof item.required === 'number') {
+      return { ...rect, required: clampInt(item.required, 1, 4, `${path}.required`) };
+    }
+    if (item.required !== undefined || item.allowedPlayer !== undefined) {
+      warn(path, `Invalid push rule, defaulting to ${DEFAULT_BLOCK_REQUIRED} required pushers`);
+    }
+    return { ...rect, required: DEFAULT_BLOCK_REQUIRED };
+  });
+
+  const parsePath = (value: unknown, path: string): BridgePath | null => {
+    if (!isObject(value)) {
+      error(path, 'Expected an object with waypoints');
+      return null;
+    }
+    if (!Array.isArray(value.waypoints)) {
+      error(`${path}.waypoints`, 'Expected an array');
+      return null;
+    }
+    const waypoints = parseList(value.waypoints, `${path}.waypoints`, (item, itemPath) => {
+      if (!isObject(item) || typeof item.x !== 'number' || typeof item.y !== 'number') {
+        error(itemPath, 'Expected an object with numeric x and y');
+        return null;
+      }
+      return { x: item.x, y: item.y };
+    });
+    // An empty path moves like a plain bridge, so it is dropped rather than rejected.
+    if (waypoints.length === 0) {
+      warn(`${path}.waypoints`, 'No waypoints, path removed');
+      return null;
+    }
+    let speed = DEFAULT_BRIDGE_PATH_SPEED;
+    if (typeof value.speed === 'number' && Number.isFinite(value.speed)) {
+      speed = Math.max(0.25, Math.min(MAX_BRIDGE_PATH_SPEED, value.speed));
+      if (speed !== value.speed) warn(`${path}.speed`, `Value ${value.speed} adjusted to ${speed}`);
+    } else {
+      warn(`${path}.speed`, `Missing speed, using ${speed}`);
+    }
+    let mode: BridgePath['mode'] = 'pingpong';
+    if (value.mode === 'loop' || value.mode === 'pingpong') mode = value.mode;
+    else warn(`${path}.mode`, 'Expected "loop" or "pingpong", using "pingpong"');
+    let trigger: BridgePath['trigger'] = 'button';
+    if (value.trigger === 'always' || value.trigger === 'button') trigger = value.trigger;
+    else warn(`${path}.trigger`, 'Expected "always" or "button", using "button"');
+    return { waypoints, speed, mode, trigger };
+  };
+
+  const bridgeIds = new Set<number>();
+  const bridges = parseList(obj.bridges, '$.bridges', (item, path): BridgeDef | null => {
+    const rect = parseRect(item, path);
+    if (!rect || !isObject(item)) return null;
+    let ok = true;
+    for (const field of ['id', 'dx', 'dy', 'distance'] as const) {
+      if (typeof item[field] !== 'number') {
+        error(`${path}.${field}`, 'Expected a number');
+        ok = false;
+      }
+    }
+    if (!ok) return null;
+    const id = Math.round(item.id as number);
+    const dx = Math.round(item.dx as number);
+    const dy = Math.round(item.dy as number);
+    if (Math.abs(dx) + Math.abs(dy) !== 1) {
+      error(path, 'Move direction (dx, dy) must be one of the four cardinal directions');
+      return null;
+    }
+    if (bridgeIds.has(id)) {
+      error(`${path}.id`, `Duplicate bridge id ${id}`);
+      return null;
+    }
+    bridgeIds.add(id);
+    const distance = Math.max(0, Math.round(item.distance as number));
+    if (distance !== item.distance) warn(`${path}.distance`, `Value ${item.distance} adjusted to ${distance}`);
+    const permanent = item.permanent === undefined ? false : Boolean(item.permanent);
+    let requiredPlayers: number | undefined;
+    if (typeof item.requiredPlayers === 'number' && item.requiredPlayers !== 0) {
+      requiredPlayers = clampInt(item.requiredPlayers, 1, 4, `${path}.requiredPlayers`);
+    }
+    const route = item.path === undefined || item.path === null ? null : parsePath(item.path, `${path}.path`);
+    return {
+      ...rect,
+      id,
+      dx,
+      dy,
+      distance,
+      permanent,
+      ...(requiredPlayers ? { requiredPlayers } : {}),
+      ...(route ? { path: route } : {})
+    };
+  });
+
+  const spikeIds = new Set<number>();
+  const spikes = parseList(obj.spikes, '$.spikes', (item, path): SpikeDef | null => {
+    const rect = parseRect(item, path);
+    if (!rect || !isObject(item)) return null;
+    if (typeof item.id !== 'number') {
+      error(`${path}.id`, 'Expected a number');
+      return null;
+    }
+    const id = Math.round(item.id);
+    if (spikeIds.has(id)) {
+      error(`${path}.id`, `Duplicate spike id ${id}`);
+      return null;
+    }
+    spikeIds.add(id);
+    return { ...rect, id };
+  });
+
+  // Gate targets are parsed after every gate id is known, since gates can feed
+  // gates that appear later in the list.
+  const gateIds = new Set<number>();
+  const gateEntries = parseList(obj.gates, '$.gates', (item, path) => {
+    const rect = parseRect(item, path);
+    if (!rect || !isObject(item)) return null;
+    if (typeof item.id !== 'number') {
+      error(`${path}.id`, 'Expected a number');
+      return null;
+    }
+    if (typeof item.kind !== 'string' || !GATE_KINDS.includes(item.kind as GateKind)) {
+      error(`${path}.kind`, `Expected one of ${GATE_KINDS.map(k => `"${k}"`).join(', ')}`);
+      return null;
+    }
+    const id = Math.round(item.id);
+    if (gateIds.has(id)) {
+      error(`${path}.id`, `Duplicate gate id ${id}`);
+      return null;
+    }
+    gateIds.add(id);
+    const kind = item.kind as GateKind;
+    let delayFrames: number | undefined;
+    if (kind === 'delay') {
+      if (typeof item.delayFrames === 'number') {
+        delayFrames = clampInt(item.delayFrames, 0, 60 * 60, `${path}.delayFrames`);
+      } else {
+        delayFrames = DEFAULT_GATE_DELAY_FRAMES;
+        warn(`${path}.delayFrames`, `Missing delay, using ${delayFrames} frames`);
+      }
+    }
+    const def: GateDef = { ...rect, id, kind, targets: [], ...(delayFrames !== undefined ? { delayFrames } : {}) };
+    return { def, targets: item.targets, path };
+  });
+
+  const parseTarget = (value: unknown, path: string): LinkTarget | null => {
+    if (!isObject(value)) {
+      error(path, 'Expected an object with a kind');
+      return null;
+    }
+    if (value.kind === 'door') return { kind: 'door' };
+    if (value.kind !== 'bridge' && value.kind !== 'spike' && value.kind !== 'gate') {
+      error(`${path}.kind`, 'Expected "bridge", "spike", "gate" or "door"');
+      return null;
+    }
+    if (typeof value.id !== 'number') {
+      error(`${path}.id`, 'Expected a number');
+      return null;
+    }
+    const id = Math.round(value.id);
+    const known = value.kind === 'bridge' ? bridgeIds : value.kind === 'gate' ? gateIds : spikeIds;
+    if (!known.has(id)) {
+      warn(path, `${value.kind[0].toUpperCase()}${value.kind.slice(1)} ${id} does not exist, link removed`);
+      return null;
+    }
+    return { kind: value.kind, id };
+  };
+
+  const parseTargets = (value: unknown, path: string, selfGateId?: number): LinkTarget[] => {
+    const seen = new Set<string>();
+    return parseList(value, path, (item, targetPath) => {
+      const target = parseTarget(item, targetPath);
+      if (!target) return null;
+      if (target.kind === 'gate' && target.id === selfGateId) {
+        warn(targetPath, 'A gate cannot drive itself, link removed');
+        return null;
+      }
+      const key = linkTargetKey(target);
+      if (seen.has(key)) {
+        warn(targetPath, 'Duplicate link removed');
+        return null;
+      }
+      seen.add(key);
+      return target;
+    });
+  };
+
+  const buttonIds = new Set<number>();
+  const buttons = parseList(obj.buttons, '$.buttons', (item, path): ButtonDef | null => {
+    const rect = parseRect(item, path);
+    if (!rect || !isObject(item)) return null;
+    if (typeof item.id !== 'number') {
+      error(`${path}.id`, 'Expected a number');
+      return null;
+    }
+    const id = Math.round(item.id);
+    if (buttonIds.has(id)) {
+      error(`${path}.id`, `Duplicate button id ${id}`);
+      return null;
+    }
+    buttonIds.add(id);
+    return { ...rect, id, targets: parseTargets(item.targets, `${path}.targets`) };
+  });
+
+  const gates = gateEntries.map(entry => ({
+    ...entry.def,
+    targets: parseTargets(entry.targets, `${entry.path}.targets`, entry.def.id)
+  }));
+
+  const checkpointIds = new Set<number>();
+  const checkpoints = parseList(obj.checkpoints, '$.checkpoints', (item, path): CheckpointDef | null => {
+    const point = parsePoint(item, path);
+    if (!point || !isObject(item)) return null;
+    if (typeof item.id !== 'number') {
+      error(`${path}.id`, 'Expected a number');
+      return null;
+    }
+    const id = Math.round(item.id);
+    if (checkpointIds.has(id)) {
+      error(`${path}.id`, `Duplicate checkpoint id ${id}`);
+      return null;
+    }
+    checkpointIds.add(id);
+    return { id, ...point };
+  });
+
+  let theme: ThemeId | undefined;
+  if (obj.theme !== undefined && obj.theme !== null) {
+    if (isThemeId(obj.theme)) theme = obj.theme;
+    else warn('$.theme', `Unknown theme ${JSON.stringify(obj.theme)}, using the default`);
+  }
+
+  // Entries for entity types whose plugin isn't loaded are kept as they are, so
+  // saving the level doesn't lose them.
+  const custom: Record<string, unknown[]> = {};
+  if (obj.custom !== null && obj.custom !== undefined) {
+    if (!isObject(obj.custom) || Array.isArray(obj.custom)) {
+      error('$.custom', 'Expected an object of entity lists keyed by type');
+    } else {
+      for (const [type, value] of Object.entries(obj.custom)) {
+        const path = `$.custom.${type}`;
+        const plugin = getEntityPlugin(type);
+        if (!plugin) {
+          if (Array.isArray(value)) {
+            warn(path, `No plugin for entity type "${type}" is loaded, its entities are kept but inactive`);
+            custom[type] = value;
+          } else {
+            error(path, 'Expected an array');
+          }
+          continue;
+        }
+        custom[type] = parseList(value, path, (item, itemPath) => {
+          const rect = parseRect(item, itemPath);
+          if (!rect || !isObject(item)) return null;
+          return plugin.parse(item, rect, {
+            warn: (message, field) => warn(field ? `${itemPath}.${field}` : itemPath, message),
+            error: (message, field) => error(field ? `${itemPath}.${field}` : itemPath, message)
+          });
+        });
+      }
+    }
+  }
+
+  if (issues.some(issue => issue.severity === 'error')) return { level: null, issues };
+  const level: LevelState = {
+    version: LEVEL_VERSION,
+    config,
+    platforms,
+    door,
+    spawn,
+    key,
+    blocks,
+    bridges,
+    buttons,
+    spikes,
+    gates,
+    checkpoints
+  };
+  if (theme) level.theme = theme;
+  if (Object.keys(custom).length > 0) level.custom = custom;
+  return { level, issues };
+}
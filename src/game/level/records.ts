@@ -0,0 +1,39 @@
+// Best completion time per level, keyed the same way as ghosts and tied to the
+// level hash so an edited level starts without a record.
+type BestTime = {
+  levelHash: string;
+  frames: number;
+};
+
+const BEST_TIME_PREFIX = 'pico_best_time_v1:';
+
+export function readBestTime(key: string, levelHash: string): number | null {
+  const raw = localStorage.getItem(BEST_TIME_PREFIX + key);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<BestTime>;
+    if (parsed.levelHash !== levelHash || typeof parsed.frames !== 'number' || parsed.frames < 0) return null;
+    return parsed.frames;
+  } catch {
+    return null;
+  }
+}
+
+export function writeBestTime(key: string, levelHash: string, frames: number) {
+  const record: BestTime = { levelHash, frames };
+  localStorage.setItem(BEST_TIME_PREFIX + key, JSON.stringify(record));
+}
+
+export function removeBestTime(key: string) {
+  localStorage.removeItem(BEST_TIME_PREFIX + key);
+}
+
+export function removeBestTimes(keyPrefix: string) {
+  const prefix = BEST_TIME_PREFIX + keyPrefix;
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i += 1) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) keys.push(key);
+  }
+  for (const key of keys) localStorage.removeItem(key);
+}
@@ -0,0 +1,167 @@
+import type { LevelConfig, LevelState } from '../Game';
+import type { InputFrame, SlotInput } from '../Simulation';
+import { parseLevelState, type LevelIssue } from './parse';
+
+export const REPLAY_FORMAT = 'pico-replay';
+export const REPLAY_VERSION = 1;
+const REPLAY_SLOTS = 4;
+
+// Consecutive identical input frames are stored once with a repeat count.
+export type ReplayRun = { count: number; input: InputFrame };
+
+export type Replay = {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  level: LevelState;
+  frameCount: number;
+  runs: ReplayRun[];
+};
+
+export type ReplayParseResult = {
+  replay: Replay | null;
+  issues: LevelIssue[];
+};
+
+export type ReplayCursor = { run: number; offset: number; frame: number };
+
+export function createReplay(level: LevelState): Replay {
+  return {
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    level: JSON.parse(JSON.stringify(level)) as LevelState,
+    frameCount: 0,
+    runs: []
+  };
+}
+
+function sameSlotInput(a: SlotInput | null, b: SlotInput | null): boolean {
+  if (!a || !b) return a === b;
+  return a.axisX === b.axisX && a.jump === b.jump;
+}
+
+function sameInputFrame(a: InputFrame, b: InputFrame): boolean {
+  for (let i = 0; i < REPLAY_SLOTS; i += 1) {
+    if (!sameSlotInput(a[i] ?? null, b[i] ?? null)) return false;
+  }
+  return true;
+}
+
+export function appendReplayFrame(replay: Replay, input: InputFrame) {
+  replay.frameCount += 1;
+  const last = replay.runs[replay.runs.length - 1];
+  if (last && sameInputFrame(last.input, input)) {
+    last.count += 1;
+    return;
+  }
+  const copy: InputFrame = [];
+  for (let i = 0; i < REPLAY_SLOTS; i += 1) {
+    const slot = input[i] ?? null;
+    copy.push(slot ? { axisX: slot.axisX, jump: slot.jump } : null);
+  }
+  replay.runs.push({ count: 1, input: copy });
+}
+
+export function createReplayCursor(): ReplayCursor {
+  return { run: 0, offset: 0, frame: 0 };
+}
+
+// Returns the next recorded input frame, or null once the replay has run out.
+export function nextReplayFrame(replay: Replay, cursor: ReplayCursor): InputFrame | null {
+  const run = replay.runs[cursor.run];
+  if (!run) return null;
+  cursor.offset += 1;
+  cursor.frame += 1;
+  if (cursor.offset >= run.count) {
+    cursor.run += 1;
+    cursor.offset = 0;
+  }
+  return run.input;
+}
+
+function parseSlotInput(value: unknown, path: string, error: (path: string, message: string) => void): SlotInput | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    error(path, 'Expected null or an object with axisX and jump');
+    return null;
+  }
+  const v = value as { axisX?: unknown; jump?: unknown };
+  if (typeof v.axisX !== 'number' || !Number.isFinite(v.axisX) || Math.abs(v.axisX) > 1) {
+    error(`${path}.axisX`, 'Expected a number between -1 and 1');
+    return null;
+  }
+  if (typeof v.jump !== 'boolean') {
+    error(`${path}.jump`, 'Expected a boolean');
+    return null;
+  }
+  return { axisX: v.axisX, jump: v.jump };
+}
+
+export function parseReplayJson(json: string, fallbackConfig: LevelConfig): ReplayParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Invalid JSON';
+    return { replay: null, issues: [{ severity: 'error', path: '$', message }] };
+  }
+
+  const issues: LevelIssue[] = [];
+  const error = (path: string, message: string) => {
+    issues.push({ severity: 'error', path, message });
+  };
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    error('$', 'Replay must be a JSON object');
+    return { replay: null, issues };
+  }
+  const obj = parsed as { format?: unknown; version?: unknown; level?: unknown; runs?: unknown };
+
+  if (obj.format !== REPLAY_FORMAT) {
+    error('$.format', `Expected "${REPLAY_FORMAT}"`);
+  }
+  if (typeof obj.version !== 'number' || !Number.isInteger(obj.version) || obj.version < 1) {
+    error('$.version', 'Version must be a positive integer');
+  } else if (obj.version > REPLAY_VERSION) {
+    error('$.version', `Replay version ${obj.version} is newer than supported version ${REPLAY_VERSION}`);
+  }
+
+  const levelResult = parseLevelState(obj.level, fallbackConfig);
+  for (const issue of levelResult.issues) {
+    issues.push({ ...issue, path: `$.level${issue.path.slice(1)}` });
+  }
+
+  const runs: ReplayRun[] = [];
+  let frameCount = 0;
+  if (!Array.isArray(obj.runs)) {
+    error('$.runs', 'Expected an array of input runs');
+  } else {
+    obj.runs.forEach((item, i) => {
+      const path = `$.runs[${i}]`;
+      const run = item as { count?: unknown; input?: unknown } | null;
+      if (!run || typeof run !== 'object') {
+        error(path, 'Expected an object with count and input');
+        return;
+      }
+      if (typeof run.count !== 'number' || !Number.isInteger(run.count) || run.count < 1) {
+        error(`${path}.count`, 'Expected a positive integer');
+        return;
+      }
+      if (!Array.isArray(run.input) || run.input.length > REPLAY_SLOTS) {
+        error(`${path}.input`, `Expected an array of up to ${REPLAY_SLOTS} slot inputs`);
+        return;
+      }
+      const input: InputFrame = [];
+      for (let slot = 0; slot < REPLAY_SLOTS; slot += 1) {
+        input.push(parseSlotInput(run.input[slot], `${path}.input[${slot}]`, error));
+      }
+      runs.push({ count: run.count, input });
+      frameCount += run.count;
+    });
+  }
+
+  if (!levelResult.level || issues.some(issue => issue.severity === 'error')) return { replay: null, issues };
+  return {
+    replay: { format: REPLAY_FORMAT, version: REPLAY_VERSION, level: levelResult.level, frameCount, runs },
+    issues
+  };
+}
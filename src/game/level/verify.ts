@@ -0,0 +1,475 @@
+import Matter from 'matter-js';
+import type { BlockDef, BridgeDef, LevelRect, LevelState, LinkTarget } from '../Game';
+import { Player } from '../Player';
+import { FIXED_STEP_MS, snap } from '../Simulation';
+import { linkTargetKey } from '../entities/links';
+import { ensureSpawn } from '../entities/spawn';
+import { CHECKPOINT_HEIGHT, CHECKPOINT_WIDTH } from '../entities/checkpoint';
+import { DEFAULT_BLOCK_REQUIRED } from '../entities/block';
+
+// The verifier explores the level abstractly: players stand on the top edges of
+// solids, move between them with the measured jump arc, and everything that can
+// change (bridges, spikes, the door) follows from which buttons someone can
+// reach and hold. It errs on the side of calling a level solvable, so a goal it
+// reports as unreachable is almost certainly impossible for that team size.
+
+export type VerifyTarget = 'key' | 'door' | 'block' | 'button' | 'bridge' | 'checkpoint';
+
+export type VerifyFinding = {
+  target: VerifyTarget;
+  label: string;
+  at: { x: number; y: number };
+  ok: boolean;
+  reasons: string[];
+};
+
+export type VerifyReport = {
+  playerCount: number;
+  solvable: boolean;
+  jump: { height: number; distance: number };
+  findings: VerifyFinding[];
+  notes: string[];
+};
+
+export type JumpProfile = {
+  width: number;
+  height: number;
+  // Offsets of a held, full-speed jump per fixed step; rise is upwards.
+  arc: Array<{ x: number; rise: number }>;
+  // Highest rise reachable once the jump has covered arc[i].x.
+  bestRise: number[];
+};
+
+type Segment = {
+  x1: number;
+  x2: number;
+  y: number;
+  // Set for segments on a bridge at one of its stops.
+  bridge?: number;
+};
+
+type Signal = number | null;
+
+const GROUND_THICKNESS = 40;
+// Inner edges of the side walls built by Simulation.rebuildBounds.
+const WALL_INSET = 10;
+const MAX_JUMP_FRAMES = 900;
+const DEFAULT_PLAYERS = 2;
+
+// Runs a lone Player through a held jump at full speed in an empty world, so the
+// arc follows its jump power, air friction and the engine's gravity.
+export function measureJump(fallDepth: number): JumpProfile {
+  const engine = Matter.Engine.create();
+  const player = new Player(0, 0, '#ffffff');
+  Matter.Composite.add(engine.world, player.body);
+  const width = player.body.bounds.max.x - player.body.bounds.min.x;
+  const height = player.body.bounds.max.y - player.body.bounds.min.y;
+  const input = { axes: [1], buttons: [{ pressed: true }] };
+  const arc: JumpProfile['arc'] = [];
+  player.update(true);
+  while (arc.length < MAX_JUMP_FRAMES) {
+    player.handleInput(input);
+    Matter.Engine.update(engine, FIXED_STEP_MS);
+    player.update(false, false);
+    arc.push({ x: player.body.position.x, rise: -player.body.position.y });
+    if (-player.body.position.y < -fallDepth) break;
+  }
+  Matter.Engine.clear(engine);
+  const bestRise = arc.map(p => p.rise);
+  for (let i = bestRise.length - 2; i >= 0; i -= 1) bestRise[i] = Math.max(bestRise[i], bestRise[i + 1]);
+  return { width, height, arc, bestRise };
+}
+
+// The highest a jump gets once it has moved `distance` sideways, or -Infinity
+// when it can't get that far before falling out of the level.
+function riseAt(jump: JumpProfile, distance: number): number {
+  const { arc } = jump;
+  if (arc.length === 0 || arc[arc.length - 1].x < distance) return -Infinity;
+  let lo = 0;
+  let hi = arc.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (arc[mid].x >= distance) hi = mid;
+    else lo = mid + 1;
+  }
+  return jump.bestRise[lo];
+}
+
+function overlapsX(a: { x1: number; x2: number }, b: { x1: number; x2: number }): boolean {
+  return a.x1 < b.x2 && b.x1 < a.x2;
+}
+
+function span(r: LevelRect): { x1: number; x2: number } {
+  return { x1: r.x, x2: r.x + r.w };
+}
+
+// The parts of `top`'s upper edge a player can stand on: whatever intrudes into
+// the player-high band above it is cut out.
+function surfaceSegments(top: LevelRect, blockers: LevelRect[], width: number, playerHeight: number): Segment[] {
+  let parts = [{ x1: Math.max(top.x, WALL_INSET), x2: Math.min(top.x + top.w, width - WALL_INSET) }];
+  for (const b of blockers) {
+    if (b === top || b.y >= top.y || b.y + b.h <= top.y - playerHeight) continue;
+    parts = parts.flatMap(p => {
+      if (!overlapsX(p, span(b))) return [p];
+      const out = [];
+      if (b.x > p.x1) out.push({ x1: p.x1, x2: b.x });
+      if (b.x + b.w < p.x2) out.push({ x1: b.x + b.w, x2: p.x2 });
+      return out;
+    });
+  }
+  return parts.filter(p => p.x2 - p.x1 >= 1).map(p => ({ ...p, y: top.y }));
+}
+
+// Whether a player standing on `from`, boosted up by `extra`, can land on `to`
+// while clearing every obstacle between the two.
+function canJump(jump: JumpProfile, from: Segment, to: Segment, obstacles: LevelRect[], extra: number): boolean {
+  if (from === to) return true;
+  const right = to.x1 >= from.x2;
+  const left = to.x2 <= from.x1;
+  const gap = right ? to.x1 - from.x2 : left ? from.x1 - to.x2 : 0;
+  const needs = [{ distance: gap - jump.width, rise: from.y - to.y }];
+  if (right || left) {
+    const high = Math.min(from.y, to.y);
+    const low = Math.max(from.y, to.y);
+    for (const o of obstacles) {
+      if (o.y >= low || o.y + o.h <= high - jump.height) continue;
+      const near = right ? o.x - from.x2 : from.x1 - (o.x + o.w);
+      const far = right ? o.x + o.w - from.x2 : from.x1 - o.x;
+      if (far <= 0 || near >= gap) continue;
+      needs.push({ distance: near - jump.width, rise: from.y - o.y }, { distance: far, rise: from.y - o.y });
+    }
+  }
+  return needs.every(n => riseAt(jump, Math.max(0, n.distance)) + extra >= n.rise);
+}
+
+// How far short the best attempt from `segments` falls of touching `goal`; zero
+// or less means some player gets there.
+function reachShortfall(
+  jump: JumpProfile,
+  goal: LevelRect,
+  segments: Iterable<Segment>,
+  extra: (s: Segment) => number
+): number {
+  let best = Infinity;
+  for (const s of segments) {
+    if (goal.y > s.y) continue;
+    const reachLeft = s.x1 - jump.width;
+    const reachRight = s.x2 + jump.width;
+    const gap =
+      goal.x > reachRight ? goal.x - reachRight : goal.x + goal.w < reachLeft ? reachLeft - goal.x - goal.w : 0;
+    const rise = s.y - jump.height - (goal.y + goal.h);
+    best = Math.min(best, rise - riseAt(jump, gap) - extra(s));
+  }
+  return best;
+}
+
+function bridgeStops(def: BridgeDef): LevelRect[] {
+  const home = { x: def.x, y: def.y, w: def.w, h: def.h };
+  if (def.path && def.path.waypoints.length > 0) {
+    return [home, ...def.path.waypoints.map(w => ({ ...home, x: def.x + w.x, y: def.y + w.y }))];
+  }
+  if (!def.distance) return [home];
+  return [home, { ...home, x: def.x + def.dx * def.distance, y: def.y + def.dy * def.distance }];
+}
+
+function playersLabel(count: number): string {
+  return count === 1 ? '1 player' : `${count} players`;
+}
+
+function blockCanMove(def: BlockDef, playerCount: number): string | null {
+  if (def.allowedPlayer !== undefined) {
+    return def.allowedPlayer < playerCount
+      ? null
+      : `Only player ${def.allowedPlayer + 1} can push it, but the run only has ${playersLabel(playerCount)}`;
+  }
+  const required = def.required ?? DEFAULT_BLOCK_REQUIRED;
+  if (required <= playerCount) return null;
+  return `Needs ${required} pushers, but the run only has ${playersLabel(playerCount)}`;
+}
+
+function describeShortfall(shortfall: number, what: string): string {
+  if (!Number.isFinite(shortfall)) return `No reachable ledge is within jumping distance of ${what}`;
+  const subject = `${what[0].toUpperCase()}${what.slice(1)}`;
+  return `${subject} is ${Math.ceil(shortfall)}px beyond the best jump from a reachable ledge`;
+}
+
+function holdersLabel(count: number): string {
+  return count === 1 ? 'a button is held' : `${count} buttons are held`;
+}
+
+export function verifyLevel(level: LevelState, playerCount: number): VerifyReport {
+  const players = Number.isFinite(playerCount) ? Math.max(1, Math.min(4, Math.round(playerCount))) : DEFAULT_PLAYERS;
+  const { width, height } = level.config;
+  const jump = measureJump(height);
+  const W = jump.width;
+  const H = jump.height;
+  const stack = (players - 1) * H;
+
+  const ground: LevelRect = { x: -5, y: height - GROUND_THICKNESS, w: width + 10, h: GROUND_THICKNESS };
+  const solids = [ground, ...level.platforms];
+  const restsOn = (r: LevelRect, under: LevelRect[]): number => {
+    let top = height - GROUND_THICKNESS;
+    for (const s of under) if (overlapsX(span(r), span(s)) && s.y >= r.y + r.h - 1) top = Math.min(top, s.y);
+    return top;
+  };
+  // Blocks fall until something holds them up.
+  const blocks = level.blocks.map(def => {
+    const pushable = blockCanMove(def, players) === null;
+    const dropTo = restsOn(def, solids);
+    return { def, pushable, rect: { x: def.x, y: dropTo - def.h, w: def.w, h: def.h } };
+  });
+  for (const b of blocks) if (!b.pushable) solids.push(b.rect);
+
+  const sources: Array<{ kind: 'button' | 'gate'; id: number; targets: LinkTarget[] }> = [
+    ...level.buttons.map(b => ({ kind: 'button' as const, id: b.id, targets: b.targets })),
+    ...level.gates.map(g => ({ kind: 'gate' as const, id: g.id, targets: g.targets }))
+  ];
+  const sourcesOf = (key: string) => sources.filter(s => s.targets.some(t => linkTargetKey(t) === key));
+
+  // Signals are the fewest players that have to stay on buttons to keep a
+  // target powered: 0 when it stays on by itself, null when it can't be powered.
+  let buttonSignal = new Map<number, Signal>();
+  let gateSignal = new Map<number, Signal>();
+  const signalOf = (s: { kind: 'button' | 'gate'; id: number }): Signal =>
+    (s.kind === 'button' ? buttonSignal : gateSignal).get(s.id) ?? null;
+  const minSignal = (list: Signal[]): Signal =>
+    list.reduce<Signal>((a, b) => (a === null ? b : b === null ? a : Math.min(a, b)), null);
+  const targetSignal = (target: LinkTarget): Signal => minSignal(sourcesOf(linkTargetKey(target)).map(signalOf));
+  const evaluateGates = () => {
+    gateSignal = new Map();
+    for (let pass = 0; pass <= level.gates.length; pass += 1) {
+      for (const gate of level.gates) {
+        const inputs = sourcesOf(linkTargetKey({ kind: 'gate', id: gate.id })).map(signalOf);
+        let out: Signal;
+        if (gate.kind === 'not') out = 0;
+        else if (gate.kind === 'toggle') out = inputs.some(i => i !== null) ? 0 : null;
+        else if (gate.kind === 'and') {
+          const held = inputs.reduce<number>((a, b) => a + (b ?? 0), 0);
+          out = inputs.length > 0 && inputs.every(i => i !== null) ? held : null;
+        } else out = minSignal(inputs);
+        gateSignal.set(gate.id, out);
+      }
+    }
+  };
+  // Something someone can rely on while another player keeps it powered.
+  const usable = (signal: Signal) => signal !== null && signal <= players - 1;
+
+  const spawn = ensureSpawn(level.spawn, level.config, snap);
+  let teamReach = new Set<Segment>();
+  let scoutReach = new Set<Segment>();
+  let segments: Segment[] = [];
+  let blockStep = new Map<Segment, number>();
+  let rideable = new Map<number, boolean>();
+  const teamExtra = (s: Segment) => blockStep.get(s) ?? 0;
+  // One player can climb the rest of the team to get higher.
+  const scoutExtra = (s: Segment) => (teamReach.has(s) ? stack + teamExtra(s) : 0);
+
+  for (let round = 0; round <= sources.length + level.bridges.length + 1; round += 1) {
+    evaluateGates();
+
+    const bridgeRects: LevelRect[] = [];
+    const bridgeOf = new Map<LevelRect, number>();
+    rideable = new Map();
+    for (const def of level.bridges) {
+      const signal = targetSignal({ kind: 'bridge', id: def.id });
+      const always = def.path !== undefined && def.path.waypoints.length > 0 && def.path.trigger === 'always';
+      const byRiders = def.requiredPlayers !== undefined && def.requiredPlayers > 0 && def.requiredPlayers <= players;
+      rideable.set(def.id, always || byRiders || usable(signal));
+      // A stop the bridge can stay at with nobody holding anything.
+      const rests = (i: number) =>
+        i === 0 ||
+        always ||
+        (signal !== null && (signal === 0 || Boolean(def.permanent) || def.path?.trigger === 'button'));
+      bridgeStops(def).forEach((stop, i) => {
+        if (!rests(i) && !rideable.get(def.id)) return;
+        bridgeRects.push(stop);
+        bridgeOf.set(stop, def.id);
+      });
+    }
+    const hazards = level.spikes.filter(s => !usable(targetSignal({ kind: 'spike', id: s.id })));
+    const tops = [...solids, ...bridgeRects, ...blocks.filter(b => b.pushable).map(b => b.rect)];
+    const blockers = [...solids, ...bridgeRects, ...hazards];
+    segments = tops.flatMap(top =>
+      surfaceSegments(top, blockers, width, H).map(s => ({ ...s, bridge: bridgeOf.get(top) }))
+    );
+    const obstacles = [...solids, ...hazards];
+
+    const supportOf = (r: LevelRect) =>
+      segments.find(s => Math.abs(s.y - (r.y + r.h)) < 1 && overlapsX(s, span(r)) && s.bridge === undefined);
+    const explore = (seeds: Segment[], boost: (s: Segment) => number): Set<Segment> => {
+      const seen = new Set(seeds);
+      const queue = [...seeds];
+      while (queue.length > 0) {
+        const from = queue.shift()!;
+        for (const to of segments) {
+          if (seen.has(to)) continue;
+          const ride =
+            from.bridge !== undefined && from.bridge === to.bridge && rideable.get(from.bridge) === true;
+          if (!ride && !canJump(jump, from, to, obstacles, boost(from))) continue;
+          seen.add(to);
+          queue.push(to);
+        }
+      }
+      return seen;
+    };
+
+    const start = segments
+      .filter(s => s.y >= spawn.y && spawn.x > s.x1 - W / 2 && spawn.x < s.x2 + W / 2)
+      .sort((a, b) => a.y - b.y)[0];
+    blockStep = new Map();
+    teamReach = start ? explore([start], teamExtra) : new Set();
+    // A pushable block on a ledge the team reaches works as a step anywhere on it.
+    for (let grow = true; grow; ) {
+      grow = false;
+      for (const b of blocks) {
+        const support = b.pushable ? supportOf(b.rect) : undefined;
+        if (!support || !teamReach.has(support) || (blockStep.get(support) ?? 0) >= b.rect.h) continue;
+        blockStep.set(support, b.rect.h);
+        grow = true;
+      }
+      if (grow) teamReach = explore([...teamReach], teamExtra);
+    }
+    scoutReach = explore([...teamReach], scoutExtra);
+
+    const next = new Map<number, Signal>();
+    for (const button of level.buttons) {
+      const support = supportOf(button);
+      const blockHeld = blocks.some(b => {
+        if (!b.pushable || !support || !teamReach.has(support)) return false;
+        return supportOf(b.rect) === support;
+      });
+      const reached = reachShortfall(jump, button, scoutReach, scoutExtra) <= 0;
+      next.set(button.id, blockHeld ? 0 : reached ? 1 : null);
+    }
+    const changed = [...next].some(([id, signal]) => buttonSignal.get(id) !== signal);
+    buttonSignal = next;
+    if (!changed) break;
+  }
+  evaluateGates();
+
+  const findings: VerifyFinding[] = [];
+  const notes: string[] = [];
+
+  let keyOk = true;
+  if (level.key) {
+    const rect = { x: level.key.x - 12, y: level.key.y - 12, w: 24, h: 24 };
+    const shortfall = reachShortfall(jump, rect, scoutReach, scoutExtra);
+    keyOk = shortfall <= 0;
+    findings.push({
+      target: 'key',
+      label: 'Key',
+      at: level.key,
+      ok: keyOk,
+      reasons: keyOk ? [] : [describeShortfall(shortfall, 'the key')]
+    });
+  }
+
+  let solvable = keyOk;
+  if (level.door) {
+    const reasons: string[] = [];
+    if (!keyOk) reasons.push('The key has to be carried here, but nobody can reach it');
+    const shortfall = reachShortfall(jump, level.door, teamReach, teamExtra);
+    if (shortfall > 0) {
+      const note = players > 1 ? ' (every player has to get inside)' : '';
+      reasons.push(describeShortfall(shortfall, 'the door') + note);
+    }
+    if (sourcesOf('door').length > 0) {
+      const signal = targetSignal({ kind: 'door' });
+      if (signal === null) reasons.push('It is linked to buttons, but none of them can be pressed');
+      else if (signal > 0) {
+        reasons.push(`It only opens while ${holdersLabel(signal)}, but every player has to be inside it`);
+      }
+    }
+    solvable = solvable && reasons.length === 0;
+    findings.push({
+      target: 'door',
+      label: 'Door',
+      at: { x: level.door.x + level.door.w / 2, y: level.door.y + level.door.h / 2 },
+      ok: reasons.length === 0,
+      reasons
+    });
+  } else {
+    solvable = false;
+    notes.push('The level has no door, so it can never be completed');
+  }
+
+  blocks.forEach(({ def, pushable }, i) => {
+    const reason = blockCanMove(def, players);
+    findings.push({
+      target: 'block',
+      label: `Block ${i + 1}`,
+      at: { x: def.x + def.w / 2, y: def.y + def.h / 2 },
+      ok: pushable,
+      reasons: reason ? [reason] : []
+    });
+  });
+
+  for (const button of level.buttons) {
+    const shortfall = reachShortfall(jump, button, scoutReach, scoutExtra);
+    const ok = shortfall <= 0 || buttonSignal.get(button.id) === 0;
+    findings.push({
+      target: 'button',
+      label: `Button #${button.id}`,
+      at: { x: button.x + button.w / 2, y: button.y + button.h / 2 },
+      ok,
+      reasons: ok ? [] : [describeShortfall(shortfall, 'it')]
+    });
+  }
+
+  for (const def of level.bridges) {
+    const reasons: string[] = [];
+    const moves = def.distance > 0 || (def.path?.waypoints.length ?? 0) > 0;
+    const always = def.path?.trigger === 'always' && def.path.waypoints.length > 0;
+    if (moves && !always) {
+      const signal = targetSignal({ kind: 'bridge', id: def.id });
+      const riders = def.requiredPlayers ?? 0;
+      if (riders > players && signal === null) {
+        reasons.push(`Needs ${riders} players on it, but the run only has ${playersLabel(players)}`);
+      } else if (riders === 0 && signal === null) {
+        reasons.push(
+          sourcesOf(linkTargetKey({ kind: 'bridge', id: def.id })).length > 0
+            ? 'None of the buttons that drive it can be pressed'
+            : 'Nothing drives it'
+        );
+      } else if (!rideable.get(def.id) && !def.permanent) {
+        reasons.push(`It only moves while ${holdersLabel(signal ?? 1)}, and nobody is left to ride it`);
+      }
+    }
+    findings.push({
+      target: 'bridge',
+      label: `Bridge #${def.id}`,
+      at: { x: def.x + def.w / 2, y: def.y + def.h / 2 },
+      ok: reasons.length === 0,
+      reasons
+    });
+  }
+
+  for (const checkpoint of level.checkpoints) {
+    const rect = {
+      x: checkpoint.x - CHECKPOINT_WIDTH / 2,
+      y: checkpoint.y - CHECKPOINT_HEIGHT / 2,
+      w: CHECKPOINT_WIDTH,
+      h: CHECKPOINT_HEIGHT
+    };
+    const shortfall = reachShortfall(jump, rect, scoutReach, scoutExtra);
+    findings.push({
+      target: 'checkpoint',
+      label: `Checkpoint #${checkpoint.id}`,
+      at: { x: checkpoint.x, y: checkpoint.y },
+      ok: shortfall <= 0,
+      reasons: shortfall <= 0 ? [] : [describeShortfall(shortfall, 'it')]
+    });
+  }
+
+  if (level.custom) notes.push('Entities from plugins are not taken into account');
+
+  const top = Math.max(...jump.arc.map(p => p.rise));
+  const distance = jump.arc.find(p => p.rise < 0)?.x ?? 0;
+  return {
+    playerCount: players,
+    solvable,
+    jump: { height: Math.round(top), distance: Math.round(distance) },
+    findings,
+    notes
+  };
+}
@@ -0,0 +1,75 @@
+import Matter from 'matter-js';
+import type { LevelRect } from '../Game';
+import type { EntityPlugin } from '../entities/plugin';
+
+export type BouncePadDef = LevelRect & { power: number };
+// Frames left of the squash animation after a launch.
+export type BouncePadState = { squash: number };
+
+const DEFAULT_POWER = 16;
+const MIN_POWER = 4;
+const MAX_POWER = 30;
+const SQUASH_FRAMES = 10;
+
+// Launches any player that lands on it straight up.
+export const bouncePad: EntityPlugin<BouncePadDef, BouncePadState> = {
+  type: 'bouncePad',
+  name: 'Bounce pad',
+  placement: 'rect',
+  settings: [{ kind: 'number', key: 'power', label: 'Launch speed', default: DEFAULT_POWER, min: MIN_POWER, max: MAX_POWER }],
+  parse(value, rect, issues) {
+    if (value.power === undefined) return { ...rect, power: DEFAULT_POWER };
+    if (typeof value.power !== 'number' || !Number.isFinite(value.power)) {
+      issues.error('Expected a number', 'power');
+      return null;
+    }
+    const power = Math.max(MIN_POWER, Math.min(MAX_POWER, value.power));
+    if (power !== value.power) issues.warn(`Clamped to ${power}`, 'power');
+    return { ...rect, power };
+  },
+  create(rect, settings) {
+    return { ...rect, power: typeof settings.power === 'number' ? settings.power : DEFAULT_POWER };
+  },
+  createBody(def) {
+    return Matter.Bodies.rectangle(def.x + def.w / 2, def.y + def.h / 2, def.w, def.h, {
+      isStatic: true,
+      isSensor: true,
+      label: 'bouncePad'
+    });
+  },
+  createState() {
+    return { squash: 0 };
+  },
+  update(pads, world) {
+    const players = world.playerSlots.filter(p => p !== null);
+    for (const pad of pads) {
+      if (pad.state.squash > 0) pad.state.squash -= 1;
+      for (const player of players) {
+        if (player.body.velocity.y < 0) continue;
+        if (Matter.Query.collides(pad.body, [player.body]).length === 0) continue;
+        Matter.Body.setVelocity(player.body, { x: player.body.velocity.x, y: -pad.def.power });
+        pad.state.squash = SQUASH_FRAMES;
+      }
+    }
+  },
+  draw(ctx, pad, theme) {
+    const { x, y, w, h } = pad.def;
+    const squash = pad.state.squash / SQUASH_FRAMES;
+    const top = y + h * 0.4 * squash;
+    ctx.fillStyle = theme.platform;
+    ctx.fillRect(x, y + h - 4, w, 4);
+    ctx.strokeStyle = theme.block.outline;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    const coils = Math.max(2, Math.round(w / 16));
+    for (let i = 0; i <= coils * 2; i += 1) {
+      const px = x + (w * i) / (coils * 2);
+      const py = i % 2 === 0 ? y + h - 4 : top + 6;
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    }
+    ctx.stroke();
+    ctx.fillStyle = theme.block.fill;
+    ctx.fillRect(x, top, w, 6);
+  }
+};
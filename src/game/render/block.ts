@@ -1,38 +1,47 @@
 import type { Body } from 'matter-js';
+import { drawSlotGlyph } from './palette';
+import { drawThemeSprite, type Theme } from './theme';
 
 export function drawBlock(
   ctx: CanvasRenderingContext2D,
   body: Body,
-  opts: { required?: number; pushers?: number; color?: string }
+  opts: { required?: number; pushers?: number; color?: string; glyphSlot?: number },
+  theme: Theme
 ) {
-  ctx.fillStyle = opts.color ?? '#ff9800';
-  ctx.beginPath();
-  ctx.moveTo(body.vertices[0].x, body.vertices[0].y);
-  for (let i = 1; i < body.vertices.length; i += 1) {
-    ctx.lineTo(body.vertices[i].x, body.vertices[i].y);
-  }
-  ctx.closePath();
-  ctx.fill();
-
   const { min, max } = body.bounds;
-  ctx.strokeStyle = '#ffffff';
-  ctx.lineWidth = 3;
   const minX = Math.round(min.x);
   const minY = Math.round(min.y);
   const maxX = Math.round(max.x);
   const maxY = Math.round(max.y);
-  ctx.strokeRect(minX + 2, minY + 2, maxX - minX - 4, maxY - minY - 4);
+  // Player-locked blocks keep their slot colour, so they skip the sprite.
+  if (opts.color || !drawThemeSprite(ctx, theme, 'block', min.x, min.y, max.x - min.x, max.y - min.y)) {
+    ctx.fillStyle = opts.color ?? theme.block.fill;
+    ctx.beginPath();
+    ctx.moveTo(body.vertices[0].x, body.vertices[0].y);
+    for (let i = 1; i < body.vertices.length; i += 1) {
+      ctx.lineTo(body.vertices[i].x, body.vertices[i].y);
+    }
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.strokeStyle = theme.block.outline;
+    ctx.lineWidth = 3;
+    ctx.strokeRect(minX + 2, minY + 2, maxX - minX - 4, maxY - minY - 4);
+  }
 
   const required = opts.required;
   const pushers = opts.pushers ?? 0;
   if (required && required > 0) {
     const remaining = Math.max(0, required - pushers);
-    ctx.fillStyle = '#ffffff';
-    ctx.font = '28px sans-serif';
+    ctx.fillStyle = theme.text;
+    ctx.font = `28px ${theme.font}`;
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
     ctx.fillText(String(remaining), Math.round(body.position.x), Math.round(body.position.y));
     ctx.textAlign = 'start';
     ctx.textBaseline = 'alphabetic';
   }
+  if (opts.glyphSlot !== undefined) {
+    drawSlotGlyph(ctx, opts.glyphSlot, body.position.x, body.position.y, Math.min(20, (maxX - minX) * 0.5));
+  }
 }
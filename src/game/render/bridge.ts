@@ -1,23 +1,28 @@
 import type { Body } from 'matter-js';
+import { drawThemeSprite, type Theme } from './theme';
 
 export function drawBridge(
   ctx: CanvasRenderingContext2D,
   body: Body,
   permanent: boolean,
+  theme: Theme,
   requiredPlayers?: number
 ) {
-  ctx.fillStyle = permanent ? '#7c4dff' : '#00bcd4';
-  ctx.beginPath();
-  ctx.moveTo(body.vertices[0].x, body.vertices[0].y);
-  for (let i = 1; i < body.vertices.length; i += 1) {
-    ctx.lineTo(body.vertices[i].x, body.vertices[i].y);
+  const { min, max } = body.bounds;
+  if (permanent || !drawThemeSprite(ctx, theme, 'bridge', min.x, min.y, max.x - min.x, max.y - min.y)) {
+    ctx.fillStyle = permanent ? theme.bridge.permanent : theme.bridge.moving;
+    ctx.beginPath();
+    ctx.moveTo(body.vertices[0].x, body.vertices[0].y);
+    for (let i = 1; i < body.vertices.length; i += 1) {
+      ctx.lineTo(body.vertices[i].x, body.vertices[i].y);
+    }
+    ctx.closePath();
+    ctx.fill();
   }
-  ctx.closePath();
-  ctx.fill();
 
   if (requiredPlayers && requiredPlayers > 0) {
-    ctx.fillStyle = '#ffffff';
-    ctx.font = '24px sans-serif';
+    ctx.fillStyle = theme.text;
+    ctx.font = `24px ${theme.font}`;
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
     ctx.fillText(String(requiredPlayers), Math.round(body.position.x), Math.round(body.position.y));
@@ -25,3 +30,33 @@ export function drawBridge(
     ctx.textBaseline = 'alphabetic';
   }
 }
+
+// rects[0] is the bridge's home, the rest are its waypoints in order.
+export function drawBridgePath(
+  ctx: CanvasRenderingContext2D,
+  rects: Array<{ x: number; y: number; w: number; h: number }>,
+  loop: boolean
+) {
+  if (rects.length < 2) return;
+  const centers = rects.map(r => ({ x: r.x + r.w / 2, y: r.y + r.h / 2 }));
+  ctx.strokeStyle = 'rgba(255, 193, 7, 0.8)';
+  for (let i = 1; i < rects.length; i += 1) {
+    const r = rects[i];
+    ctx.strokeRect(r.x, r.y, r.w, r.h);
+  }
+  ctx.beginPath();
+  ctx.moveTo(centers[0].x, centers[0].y);
+  for (let i = 1; i < centers.length; i += 1) ctx.lineTo(centers[i].x, centers[i].y);
+  if (loop) ctx.closePath();
+  ctx.stroke();
+
+  ctx.fillStyle = '#ffc107';
+  ctx.font = '14px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  for (let i = 1; i < centers.length; i += 1) {
+    ctx.fillText(String(i), Math.round(centers[i].x), Math.round(centers[i].y));
+  }
+  ctx.textAlign = 'start';
+  ctx.textBaseline = 'alphabetic';
+}
@@ -0,0 +1,127 @@
+import type { LevelConfig } from '../Game';
+
+export type ScreenRect = { x: number; y: number; w: number; h: number };
+
+// x and y are the world position shown at the viewport's top-left corner.
+export type CameraView = { rect: ScreenRect; x: number; y: number; zoom: number };
+
+export type ViewTarget = { rect: ScreenRect; centerX: number; centerY: number; zoom: number };
+
+// The follow camera zooms out no further than this before splitting the screen.
+export const MIN_FOLLOW_ZOOM = 0.6;
+// Regrouping has to get this much closer before split views merge again.
+const MERGE_HYSTERESIS = 0.08;
+const FRAME_MARGIN = 160;
+const FOLLOW_LERP = 0.12;
+
+type Point = { x: number; y: number };
+
+function bounds(points: Point[]) {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { minX, minY, spanX: Math.max(...xs) - minX, spanY: Math.max(...ys) - minY };
+}
+
+function fitZoom(rect: ScreenRect, points: Point[]): number {
+  const b = bounds(points);
+  return Math.min(1, rect.w / (b.spanX + FRAME_MARGIN), rect.h / (b.spanY + FRAME_MARGIN));
+}
+
+function target(rect: ScreenRect, points: Point[], level: LevelConfig): ViewTarget {
+  const b = bounds(points);
+  // No point zooming out further than it takes to show the whole level.
+  const levelZoom = Math.min(1, rect.w / level.width, rect.h / level.height);
+  const zoom = Math.max(MIN_FOLLOW_ZOOM, levelZoom, fitZoom(rect, points));
+  return { rect, centerX: b.minX + b.spanX / 2, centerY: b.minY + b.spanY / 2, zoom };
+}
+
+export function splitLayout(count: number, width: number, height: number): ScreenRect[] {
+  const halfW = width / 2;
+  const halfH = height / 2;
+  if (count <= 1) return [{ x: 0, y: 0, w: width, h: height }];
+  if (count === 2) {
+    return [
+      { x: 0, y: 0, w: halfW, h: height },
+      { x: halfW, y: 0, w: halfW, h: height }
+    ];
+  }
+  const grid = [
+    { x: 0, y: 0, w: halfW, h: halfH },
+    { x: halfW, y: 0, w: halfW, h: halfH }
+  ];
+  if (count === 3) return [...grid, { x: 0, y: halfH, w: width, h: halfH }];
+  return [...grid, { x: 0, y: halfH, w: halfW, h: halfH }, { x: halfW, y: halfH, w: halfW, h: halfH }];
+}
+
+// Greedily merges the closest groups while the merged group still fits a
+// quarter-screen view at the minimum zoom.
+function clusterPoints(points: Point[], maxSpanX: number, maxSpanY: number): Point[][] {
+  const clusters = points.map(p => [p]);
+  for (;;) {
+    let best: { i: number; j: number; span: number } | null = null;
+    for (let i = 0; i < clusters.length; i += 1) {
+      for (let j = i + 1; j < clusters.length; j += 1) {
+        const b = bounds([...clusters[i], ...clusters[j]]);
+        if (b.spanX > maxSpanX || b.spanY > maxSpanY) continue;
+        const span = b.spanX + b.spanY;
+        if (!best || span < best.span) best = { i, j, span };
+      }
+    }
+    if (!best) return clusters;
+    clusters[best.i] = [...clusters[best.i], ...clusters[best.j]];
+    clusters.splice(best.j, 1);
+  }
+}
+
+export function planViews(
+  points: Point[],
+  width: number,
+  height: number,
+  level: LevelConfig,
+  wasSplit: boolean
+): ViewTarget[] {
+  const full: ScreenRect = { x: 0, y: 0, w: width, h: height };
+  if (points.length === 0) return [{ rect: full, centerX: width / 2, centerY: height / 2, zoom: 1 }];
+  const threshold = wasSplit ? MIN_FOLLOW_ZOOM + MERGE_HYSTERESIS : MIN_FOLLOW_ZOOM;
+  if (fitZoom(full, points) >= threshold) return [target(full, points, level)];
+
+  const clusters = clusterPoints(
+    points,
+    width / 2 / MIN_FOLLOW_ZOOM - FRAME_MARGIN,
+    height / 2 / MIN_FOLLOW_ZOOM - FRAME_MARGIN
+  );
+  if (clusters.length === 1) return [target(full, points, level)];
+  const centroid = (c: Point[], axis: 'x' | 'y') => c.reduce((sum, p) => sum + p[axis], 0) / c.length;
+  const byX = (a: Point[], b: Point[]) => centroid(a, 'x') - centroid(b, 'x');
+  if (clusters.length <= 2) {
+    clusters.sort(byX);
+  } else {
+    // Higher groups take the top row of the grid, each row ordered left to right.
+    clusters.sort((a, b) => centroid(a, 'y') - centroid(b, 'y'));
+    clusters.splice(0, clusters.length, ...clusters.slice(0, 2).sort(byX), ...clusters.slice(2).sort(byX));
+  }
+  const rects = splitLayout(clusters.length, width, height);
+  return clusters.map((cluster, i) => target(rects[i], cluster, level));
+}
+
+export function clampView(view: CameraView, level: LevelConfig): CameraView {
+  const maxX = Math.max(0, level.width - view.rect.w / view.zoom);
+  const maxY = Math.max(0, level.height - view.rect.h / view.zoom);
+  return { ...view, x: Math.max(0, Math.min(maxX, view.x)), y: Math.max(0, Math.min(maxY, view.y)) };
+}
+
+// Eases existing views toward their targets; a change in view count snaps.
+export function followViews(views: CameraView[], targets: ViewTarget[], level: LevelConfig): CameraView[] {
+  const snap = views.length !== targets.length;
+  return targets.map((t, i) => {
+    const prev = views[i];
+    const zoom = snap ? t.zoom : prev.zoom + (t.zoom - prev.zoom) * FOLLOW_LERP;
+    const goalX = t.centerX - t.rect.w / zoom / 2;
+    const goalY = t.centerY - t.rect.h / zoom / 2;
+    const x = snap ? goalX : prev.x + (goalX - prev.x) * FOLLOW_LERP;
+    const y = snap ? goalY : prev.y + (goalY - prev.y) * FOLLOW_LERP;
+    return clampView({ rect: t.rect, x, y, zoom }, level);
+  });
+}
@@ -0,0 +1,19 @@
+import { CHECKPOINT_HEIGHT, CHECKPOINT_WIDTH } from '../entities/checkpoint';
+import type { Theme } from './theme';
+
+export function drawCheckpoint(ctx: CanvasRenderingContext2D, x: number, y: number, active: boolean, theme: Theme) {
+  const top = y - CHECKPOINT_HEIGHT / 2;
+  const bottom = y + CHECKPOINT_HEIGHT / 2;
+  const poleX = x - CHECKPOINT_WIDTH / 2 + 3;
+  ctx.fillStyle = theme.checkpoint.pole;
+  ctx.fillRect(poleX - 2, top, 4, CHECKPOINT_HEIGHT);
+  ctx.fillStyle = active ? theme.checkpoint.flagActive : theme.checkpoint.flag;
+  ctx.beginPath();
+  ctx.moveTo(poleX + 2, top);
+  ctx.lineTo(poleX + CHECKPOINT_WIDTH, top + 9);
+  ctx.lineTo(poleX + 2, top + 18);
+  ctx.closePath();
+  ctx.fill();
+  ctx.fillStyle = theme.checkpoint.base;
+  ctx.fillRect(poleX - 6, bottom - 4, 12, 4);
+}
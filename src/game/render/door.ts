@@ -1,11 +1,14 @@
 import type { Body } from 'matter-js';
+import { drawThemeSprite, type Theme } from './theme';
 
 export function drawDoor(
   ctx: CanvasRenderingContext2D,
   body: Body,
-  opts: { hasKeyPoint: boolean; doorUnlocked: boolean; levelCompleted: boolean }
+  opts: { hasKeyPoint: boolean; doorUnlocked: boolean; doorPowered: boolean; levelCompleted: boolean },
+  theme: Theme
 ) {
-  ctx.fillStyle = opts.hasKeyPoint && !opts.doorUnlocked ? '#90a4ae' : opts.levelCompleted ? '#00e676' : '#ffb300';
+  const locked = (opts.hasKeyPoint && !opts.doorUnlocked) || !opts.doorPowered;
+  ctx.fillStyle = locked ? theme.door.locked : opts.levelCompleted ? theme.door.complete : theme.door.open;
   ctx.beginPath();
   ctx.moveTo(body.vertices[0].x, body.vertices[0].y);
   for (let i = 1; i < body.vertices.length; i += 1) {
@@ -13,4 +16,7 @@ export function drawDoor(
   }
   ctx.closePath();
   ctx.fill();
+  // The sprite frames the door; the state colour behind it still shows through.
+  const { min, max } = body.bounds;
+  drawThemeSprite(ctx, theme, 'door', min.x, min.y, max.x - min.x, max.y - min.y);
 }
@@ -0,0 +1,25 @@
+import type { GateDef, GateKind } from '../Game';
+import type { Theme } from './theme';
+
+const GATE_LABELS: Record<GateKind, string> = {
+  and: 'AND',
+  or: 'OR',
+  not: 'NOT',
+  toggle: 'TGL',
+  delay: 'DLY'
+};
+
+export function drawGate(ctx: CanvasRenderingContext2D, def: GateDef, output: boolean, theme: Theme) {
+  ctx.fillStyle = output ? theme.gate.fillOn : theme.gate.fill;
+  ctx.fillRect(def.x, def.y, def.w, def.h);
+  ctx.strokeStyle = output ? theme.gate.outlineOn : theme.gate.outline;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(def.x + 1, def.y + 1, def.w - 2, def.h - 2);
+  ctx.fillStyle = theme.gate.label;
+  ctx.font = `12px ${theme.font}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(GATE_LABELS[def.kind], Math.round(def.x + def.w / 2), Math.round(def.y + def.h / 2));
+  ctx.textAlign = 'start';
+  ctx.textBaseline = 'alphabetic';
+}
@@ -0,0 +1,18 @@
+import type { GhostFrame } from '../level/ghost';
+
+export function drawGhost(ctx: CanvasRenderingContext2D, frame: GhostFrame, colors: readonly string[]) {
+  ctx.save();
+  ctx.globalAlpha = 0.35;
+  frame.forEach((pos, slot) => {
+    if (!pos) return;
+    const x = pos[0] - 20;
+    const y = pos[1] - 20;
+    ctx.fillStyle = colors[slot] ?? '#ffffff';
+    ctx.fillRect(x, y, 40, 40);
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.strokeRect(x, y, 40, 40);
+  });
+  ctx.restore();
+}
@@ -0,0 +1,98 @@
+import type { CameraView } from './camera';
+import { drawKey } from './key';
+import { drawSlotGlyph } from './palette';
+import type { Theme } from './theme';
+
+export type PlayerHudEntry = {
+  slot: number;
+  color: string;
+  device: string;
+  hasKey: boolean;
+  leaveProgress: number;
+};
+
+const EDGE_INSET = 22;
+const PLAYER_HALF_SIZE = 20;
+const HUD_WIDTH = 180;
+const HUD_HEIGHT = 40;
+
+// Arrows on the viewport's edge pointing at players it doesn't show.
+export function drawOffscreenIndicators(
+  ctx: CanvasRenderingContext2D,
+  view: CameraView,
+  players: Array<{ slot: number; x: number; y: number; color: string }>,
+  glyphs: boolean
+) {
+  const { rect, zoom } = view;
+  const cx = rect.x + rect.w / 2;
+  const cy = rect.y + rect.h / 2;
+  ctx.save();
+  for (const player of players) {
+    const sx = rect.x + (player.x - view.x) * zoom;
+    const sy = rect.y + (player.y - view.y) * zoom;
+    const margin = PLAYER_HALF_SIZE * zoom;
+    const visible =
+      sx + margin >= rect.x && sx - margin <= rect.x + rect.w && sy + margin >= rect.y && sy - margin <= rect.y + rect.h;
+    if (visible) continue;
+
+    const angle = Math.atan2(sy - cy, sx - cx);
+    const ex = Math.max(rect.x + EDGE_INSET, Math.min(rect.x + rect.w - EDGE_INSET, sx));
+    const ey = Math.max(rect.y + EDGE_INSET, Math.min(rect.y + rect.h - EDGE_INSET, sy));
+    ctx.save();
+    ctx.translate(ex, ey);
+    ctx.rotate(angle);
+    ctx.fillStyle = player.color;
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(14, 0);
+    ctx.lineTo(-10, -11);
+    ctx.lineTo(-10, 11);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+    if (glyphs) drawSlotGlyph(ctx, player.slot, ex - Math.cos(angle) * 22, ey - Math.sin(angle) * 22, 12);
+  }
+  ctx.restore();
+}
+
+// One row per joined slot down the right edge, below the pack and replay labels.
+export function drawPlayerHud(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  entries: PlayerHudEntry[],
+  glyphs: boolean,
+  theme: Theme
+) {
+  ctx.save();
+  const x = width - HUD_WIDTH - 12;
+  entries.forEach((entry, i) => {
+    const y = 64 + i * (HUD_HEIGHT + 6);
+    ctx.fillStyle = 'rgba(0,0,0,0.55)';
+    ctx.fillRect(x, y, HUD_WIDTH, HUD_HEIGHT);
+    ctx.fillStyle = entry.color;
+    ctx.fillRect(x + 6, y + 6, 20, 20);
+    if (glyphs) drawSlotGlyph(ctx, entry.slot, x + 16, y + 16, 12);
+
+    ctx.fillStyle = theme.text;
+    ctx.font = `13px ${theme.font}`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`P${entry.slot + 1}`, x + 32, y + 16);
+    ctx.fillStyle = 'rgba(255,255,255,0.75)';
+    ctx.font = `11px ${theme.font}`;
+    const device = entry.device.length > 18 ? `${entry.device.slice(0, 18)}…` : entry.device;
+    ctx.fillText(device, x + 56, y + 16);
+
+    if (entry.hasKey) drawKey(ctx, x + HUD_WIDTH - 14, y + 16, 7, theme);
+
+    if (entry.leaveProgress > 0) {
+      ctx.fillStyle = 'rgba(255,255,255,0.35)';
+      ctx.fillRect(x + 6, y + HUD_HEIGHT - 9, HUD_WIDTH - 12, 5);
+      ctx.fillStyle = '#e53935';
+      ctx.fillRect(x + 6, y + HUD_HEIGHT - 9, (HUD_WIDTH - 12) * entry.leaveProgress, 5);
+    }
+  });
+  ctx.restore();
+}
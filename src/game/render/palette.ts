@@ -0,0 +1,65 @@
+import { PLAYER_COLORS } from '../Simulation';
+
+export type PaletteId = 'default' | 'deuteranopia' | 'protanopia' | 'tritanopia' | 'highContrast';
+
+export type PaletteSettings = { palette: PaletteId; glyphs: boolean };
+
+// Slot colours per palette. The colour-blind sets keep the four slots apart in
+// both hue and brightness for the named colour vision deficiency.
+export const PALETTES: Record<PaletteId, { name: string; colors: readonly string[] }> = {
+  default: { name: 'Default', colors: PLAYER_COLORS },
+  deuteranopia: { name: 'Deuteranopia', colors: ['#e69f00', '#56b4e9', '#f0e442', '#cc79a7'] },
+  protanopia: { name: 'Protanopia', colors: ['#ffb000', '#648fff', '#ffffff', '#785ef0'] },
+  tritanopia: { name: 'Tritanopia', colors: ['#e41a1c', '#00b3b3', '#ffffff', '#ff8fc7'] },
+  highContrast: { name: 'High contrast', colors: ['#ffffff', '#ffff00', '#00ffff', '#ff00ff'] }
+};
+
+export const PALETTE_IDS = Object.keys(PALETTES) as PaletteId[];
+
+const PALETTE_SETTINGS_KEY = 'pico_palette_v1';
+
+export function readPaletteSettings(): PaletteSettings {
+  const fallback: PaletteSettings = { palette: 'default', glyphs: false };
+  const raw = localStorage.getItem(PALETTE_SETTINGS_KEY);
+  if (!raw) return fallback;
+  try {
+    const parsed = JSON.parse(raw) as Partial<PaletteSettings>;
+    const palette = PALETTE_IDS.includes(parsed.palette as PaletteId) ? (parsed.palette as PaletteId) : 'default';
+    return { palette, glyphs: parsed.glyphs === true };
+  } catch {
+    return fallback;
+  }
+}
+
+export function writePaletteSettings(settings: PaletteSettings) {
+  localStorage.setItem(PALETTE_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// Slot shapes: circle, triangle, square, diamond. Outlined so they read on any fill.
+export function drawSlotGlyph(ctx: CanvasRenderingContext2D, slot: number, cx: number, cy: number, size: number) {
+  const r = size / 2;
+  ctx.save();
+  ctx.beginPath();
+  if (slot === 0) {
+    ctx.arc(cx, cy, r, 0, Math.PI * 2);
+  } else if (slot === 1) {
+    ctx.moveTo(cx, cy - r);
+    ctx.lineTo(cx + r, cy + r * 0.8);
+    ctx.lineTo(cx - r, cy + r * 0.8);
+    ctx.closePath();
+  } else if (slot === 2) {
+    ctx.rect(cx - r * 0.85, cy - r * 0.85, r * 1.7, r * 1.7);
+  } else {
+    ctx.moveTo(cx, cy - r);
+    ctx.lineTo(cx + r, cy);
+    ctx.lineTo(cx, cy + r);
+    ctx.lineTo(cx - r, cy);
+    ctx.closePath();
+  }
+  ctx.fillStyle = '#ffffff';
+  ctx.fill();
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+  ctx.restore();
+}
@@ -1,7 +1,10 @@
 import type { Body } from 'matter-js';
+import { drawThemeSprite, type Theme } from './theme';
 
-export function drawPlatform(ctx: CanvasRenderingContext2D, body: Body) {
-  ctx.fillStyle = '#555';
+export function drawPlatform(ctx: CanvasRenderingContext2D, body: Body, theme: Theme) {
+  const { min, max } = body.bounds;
+  if (drawThemeSprite(ctx, theme, 'platform', min.x, min.y, max.x - min.x, max.y - min.y)) return;
+  ctx.fillStyle = theme.platform;
   ctx.beginPath();
   ctx.moveTo(body.vertices[0].x, body.vertices[0].y);
   for (let i = 1; i < body.vertices.length; i += 1) {
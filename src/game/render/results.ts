@@ -0,0 +1,98 @@
+import { FIXED_STEP_MS } from '../Simulation';
+import type { Theme } from './theme';
+
+export type ResultsView = {
+  frames: number;
+  bestFrames: number | null;
+  newRecord: boolean;
+  deaths: number;
+  players: Array<{ slot: number; color: string; jumps: number; keys: number }>;
+  subtitle: string | null;
+  continueLabel: string;
+  promptsReady: boolean;
+};
+
+export function formatRunTime(frames: number): string {
+  const totalMs = Math.round(frames * FIXED_STEP_MS);
+  const minutes = Math.floor(totalMs / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const hundredths = Math.floor((totalMs % 1000) / 10);
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(hundredths).padStart(2, '0')}`;
+}
+
+// Top centre: the page HUD covers the top-left and the instructions the bottom-left.
+export function drawRunTimer(ctx: CanvasRenderingContext2D, width: number, frames: number, deaths: number, theme: Theme) {
+  ctx.save();
+  ctx.fillStyle = theme.text;
+  ctx.font = '16px monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(deaths > 0 ? `${formatRunTime(frames)}  Deaths ${deaths}` : formatRunTime(frames), width / 2, 24);
+  ctx.restore();
+}
+
+export function drawResults(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  view: ResultsView,
+  theme: Theme
+) {
+  const panelW = 420;
+  const panelH = 210 + view.players.length * 26 + (view.subtitle ? 32 : 0);
+  const x = (width - panelW) / 2;
+  const y = (height - panelH) / 2;
+  const cx = width / 2;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(0,0,0,0.75)';
+  ctx.fillRect(x, y, panelW, panelH);
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, panelW, panelH);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = theme.text;
+  ctx.font = `36px ${theme.font}`;
+  let row = y + 40;
+  ctx.fillText('LEVEL COMPLETE', cx, row);
+  if (view.subtitle) {
+    row += 32;
+    ctx.font = `18px ${theme.font}`;
+    ctx.fillText(view.subtitle, cx, row);
+  }
+
+  row += 44;
+  ctx.font = '24px monospace';
+  ctx.fillText(formatRunTime(view.frames), cx, row);
+  row += 28;
+  ctx.font = `16px ${theme.font}`;
+  if (view.newRecord) {
+    ctx.fillStyle = '#ffd54f';
+    ctx.fillText('New best time!', cx, row);
+  } else if (view.bestFrames !== null) {
+    ctx.fillStyle = '#b0bec5';
+    ctx.fillText(`Best ${formatRunTime(view.bestFrames)}`, cx, row);
+  }
+  row += 28;
+  ctx.fillStyle = theme.text;
+  ctx.fillText(`Deaths ${view.deaths}`, cx, row);
+
+  ctx.textAlign = 'left';
+  for (const player of view.players) {
+    row += 26;
+    ctx.fillStyle = player.color;
+    ctx.fillRect(x + 70, row - 8, 16, 16);
+    ctx.fillStyle = theme.text;
+    ctx.fillText(`P${player.slot + 1}`, x + 96, row);
+    ctx.fillText(`Jumps ${player.jumps}`, x + 150, row);
+    ctx.fillText(`Keys ${player.keys}`, x + 270, row);
+  }
+
+  ctx.textAlign = 'center';
+  ctx.fillStyle = theme.text;
+  if (!view.promptsReady) ctx.globalAlpha = 0.4;
+  ctx.fillText(`Enter / A: ${view.continueLabel}    R / Y: Retry`, cx, y + panelH - 28);
+  ctx.restore();
+}
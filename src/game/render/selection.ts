@@ -0,0 +1,24 @@
+import type { LevelRect } from '../Game';
+
+export function drawSelection(
+  ctx: CanvasRenderingContext2D,
+  rect: LevelRect,
+  handles: Array<{ x: number; y: number }>,
+  zoom: number
+) {
+  ctx.save();
+  ctx.strokeStyle = '#64b5f6';
+  ctx.lineWidth = 2 / zoom;
+  ctx.setLineDash([6 / zoom, 4 / zoom]);
+  ctx.strokeRect(rect.x, rect.y, rect.w, rect.h);
+  ctx.setLineDash([]);
+  const size = 8 / zoom;
+  for (const h of handles) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(h.x - size / 2, h.y - size / 2, size, size);
+    ctx.strokeStyle = '#1e88e5';
+    ctx.lineWidth = 1.5 / zoom;
+    ctx.strokeRect(h.x - size / 2, h.y - size / 2, size, size);
+  }
+  ctx.restore();
+}
@@ -1,5 +1,7 @@
-export function drawSpawn(ctx: CanvasRenderingContext2D, x: number, y: number) {
-  ctx.fillStyle = '#00e676';
+import type { Theme } from './theme';
+
+export function drawSpawn(ctx: CanvasRenderingContext2D, x: number, y: number, theme: Theme) {
+  ctx.fillStyle = theme.spawn;
   ctx.beginPath();
   ctx.arc(x, y, 10, 0, Math.PI * 2);
   ctx.fill();
@@ -1,7 +1,16 @@
 import type { Body } from 'matter-js';
+import { drawThemeSprite, type Theme } from './theme';
 
-export function drawSpike(ctx: CanvasRenderingContext2D, body: Body) {
-  ctx.fillStyle = '#e53935';
+export function drawSpike(ctx: CanvasRenderingContext2D, body: Body, theme: Theme, retracted = false) {
+  const { min, max } = body.bounds;
+  if (retracted) {
+    const h = Math.min(4, max.y - min.y);
+    ctx.fillStyle = theme.spike.retracted;
+    ctx.fillRect(min.x, max.y - h, max.x - min.x, h);
+    return;
+  }
+  if (drawThemeSprite(ctx, theme, 'spike', min.x, min.y, max.x - min.x, max.y - min.y)) return;
+  ctx.fillStyle = theme.spike.armed;
   ctx.beginPath();
   ctx.moveTo(body.vertices[0].x, body.vertices[0].y);
   for (let i = 1; i < body.vertices.length; i += 1) {
@@ -0,0 +1,181 @@
+export type ThemeId = 'classic' | 'night' | 'bricks';
+
+export type ThemeSpriteId = 'platform' | 'door' | 'block' | 'bridge' | 'spike' | 'player';
+
+export type ThemeSprite = {
+  src: string;
+  // Region of the sheet to draw; the whole image when omitted.
+  frame?: { x: number; y: number; w: number; h: number };
+  // Border in source pixels kept at its size while the middle stretches (9-slice).
+  slice?: number;
+};
+
+export type Theme = {
+  name: string;
+  background: string;
+  font: string;
+  text: string;
+  platform: string;
+  door: { locked: string; open: string; complete: string };
+  button: {
+    base: string;
+    top: string;
+    topPressed: string;
+    edge: string;
+    edgePressed: string;
+    shine: string;
+    shinePressed: string;
+  };
+  bridge: { moving: string; permanent: string };
+  spike: { armed: string; retracted: string };
+  gate: { fill: string; fillOn: string; outline: string; outlineOn: string; label: string };
+  checkpoint: { pole: string; flag: string; flagActive: string; base: string };
+  block: { fill: string; outline: string };
+  key: { fill: string; bow: string; outline: string };
+  spawn: string;
+  player: { outline: string };
+  sprites?: Partial<Record<ThemeSpriteId, ThemeSprite>>;
+};
+
+const CLASSIC: Theme = {
+  name: 'Classic',
+  background: '#000000',
+  font: 'sans-serif',
+  text: '#ffffff',
+  platform: '#555',
+  door: { locked: '#90a4ae', open: '#ffb300', complete: '#00e676' },
+  button: {
+    base: '#ff9800',
+    top: '#ff0000',
+    topPressed: '#8b0000',
+    edge: '#990000',
+    edgePressed: '#660000',
+    shine: '#ff6b6b',
+    shinePressed: '#b22222'
+  },
+  bridge: { moving: '#00bcd4', permanent: '#7c4dff' },
+  spike: { armed: '#e53935', retracted: 'rgba(229, 57, 53, 0.35)' },
+  gate: { fill: '#37474f', fillOn: '#26a69a', outline: '#90a4ae', outlineOn: '#a7ffeb', label: '#ffffff' },
+  checkpoint: { pole: '#cfd8dc', flag: '#78909c', flagActive: '#00e676', base: '#90a4ae' },
+  block: { fill: '#ff9800', outline: '#ffffff' },
+  key: { fill: '#fdd835', bow: '#ffeb3b', outline: '#bfa100' },
+  spawn: '#00e676',
+  player: { outline: '#fff' }
+};
+
+// 96x32 sheet: brick, crate and plank tiles, each with an 8px border for 9-slicing.
+const BRICKS_SHEET =
+  'data:image/svg+xml;utf8,' +
+  encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="96" height="32">` +
+      `<rect width="32" height="32" fill="#6d3b2a"/><rect x="2" y="2" width="28" height="28" fill="#a0522d"/>` +
+      `<path d="M2 16H30M16 2V16M9 16V30M23 16V30" stroke="#6d3b2a" stroke-width="2"/>` +
+      `<rect x="32" width="32" height="32" fill="#5d4037"/><rect x="38" y="6" width="20" height="20" fill="#c58b4e"/>` +
+      `<path d="M38 6L58 26M58 6L38 26" stroke="#5d4037" stroke-width="3"/>` +
+      `<rect x="64" width="32" height="32" fill="#3e6b48"/><rect x="66" y="2" width="28" height="28" fill="#5fa36e"/>` +
+      `<path d="M66 11H94M66 21H94" stroke="#3e6b48" stroke-width="2"/>` +
+      `</svg>`
+  );
+
+export const THEMES: Record<ThemeId, Theme> = {
+  classic: CLASSIC,
+  night: {
+    ...CLASSIC,
+    name: 'Night',
+    background: '#0b1026',
+    font: 'Georgia, serif',
+    text: '#e3f2fd',
+    platform: '#2c3e66',
+    door: { locked: '#546e7a', open: '#ffd54f', complete: '#69f0ae' },
+    bridge: { moving: '#4dd0e1', permanent: '#b388ff' },
+    spike: { armed: '#ff5252', retracted: 'rgba(255, 82, 82, 0.3)' },
+    gate: { fill: '#1c2541', fillOn: '#3a7ca5', outline: '#546e7a', outlineOn: '#80deea', label: '#e3f2fd' },
+    checkpoint: { pole: '#90a4ae', flag: '#455a64', flagActive: '#69f0ae', base: '#546e7a' },
+    block: { fill: '#8d6e63', outline: '#cfd8dc' },
+    spawn: '#69f0ae',
+    player: { outline: '#e3f2fd' }
+  },
+  bricks: {
+    ...CLASSIC,
+    name: 'Bricks',
+    background: '#87ceeb',
+    font: '"Trebuchet MS", sans-serif',
+    text: '#ffffff',
+    platform: '#a0522d',
+    block: { fill: '#c58b4e', outline: '#5d4037' },
+    bridge: { moving: '#5fa36e', permanent: '#7e57c2' },
+    gate: { fill: '#6d3b2a', fillOn: '#3e6b48', outline: '#a0522d', outlineOn: '#a5d6a7', label: '#ffffff' },
+    checkpoint: { pole: '#5d4037', flag: '#a1887f', flagActive: '#5fa36e', base: '#6d3b2a' },
+    player: { outline: '#263238' },
+    sprites: {
+      platform: { src: BRICKS_SHEET, frame: { x: 0, y: 0, w: 32, h: 32 }, slice: 8 },
+      block: { src: BRICKS_SHEET, frame: { x: 32, y: 0, w: 32, h: 32 }, slice: 8 },
+      bridge: { src: BRICKS_SHEET, frame: { x: 64, y: 0, w: 32, h: 32 }, slice: 8 }
+    }
+  }
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export const DEFAULT_THEME_ID: ThemeId = 'classic';
+
+export function isThemeId(value: unknown): value is ThemeId {
+  return THEME_IDS.includes(value as ThemeId);
+}
+
+export function resolveTheme(id: string | null | undefined): Theme {
+  return isThemeId(id) ? THEMES[id] : THEMES[DEFAULT_THEME_ID];
+}
+
+const images = new Map<string, HTMLImageElement>();
+
+function loadImage(src: string): HTMLImageElement | null {
+  let image = images.get(src);
+  if (!image) {
+    image = new Image();
+    image.src = src;
+    images.set(src, image);
+  }
+  return image.complete && image.naturalWidth > 0 ? image : null;
+}
+
+// Draws the theme's sprite for the id stretched over the rect. Returns false
+// when the theme has none or its image hasn't loaded, so callers fall back to
+// the flat colours.
+export function drawThemeSprite(
+  ctx: CanvasRenderingContext2D,
+  theme: Theme,
+  id: ThemeSpriteId,
+  x: number,
+  y: number,
+  w: number,
+  h: number
+): boolean {
+  const sprite = theme.sprites?.[id];
+  if (!sprite) return false;
+  const image = loadImage(sprite.src);
+  if (!image) return false;
+  const frame = sprite.frame ?? { x: 0, y: 0, w: image.naturalWidth, h: image.naturalHeight };
+  const s = Math.min(sprite.slice ?? 0, frame.w / 2, frame.h / 2);
+  if (s <= 0) {
+    ctx.drawImage(image, frame.x, frame.y, frame.w, frame.h, x, y, w, h);
+    return true;
+  }
+  // Corners stay square; a rect thinner than two borders squeezes them.
+  const d = Math.min(s, w / 2, h / 2);
+  const sx = [frame.x, frame.x + s, frame.x + frame.w - s];
+  const sy = [frame.y, frame.y + s, frame.y + frame.h - s];
+  const sw = [s, frame.w - s * 2, s];
+  const sh = [s, frame.h - s * 2, s];
+  const dx = [x, x + d, x + w - d];
+  const dy = [y, y + d, y + h - d];
+  const dw = [d, w - d * 2, d];
+  const dh = [d, h - d * 2, d];
+  for (let row = 0; row < 3; row += 1) {
+    for (let col = 0; col < 3; col += 1) {
+      if (sw[col] <= 0 || sh[row] <= 0 || dw[col] <= 0 || dh[row] <= 0) continue;
+      ctx.drawImage(image, sx[col], sy[row], sw[col], sh[row], dx[col], dy[row], dw[col], dh[row]);
+    }
+  }
+  return true;
+}
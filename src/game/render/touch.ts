@@ -0,0 +1,52 @@
+import { JUMP_RADIUS, LEAVE_RADIUS, STICK_RADIUS, type TouchSide, type TouchSideLayout } from '../input/touch';
+
+export function drawTouchControls(
+  ctx: CanvasRenderingContext2D,
+  layout: TouchSideLayout[],
+  sides: TouchSide[],
+  colors: Array<string | null>
+) {
+  ctx.save();
+  layout.forEach((controls, i) => {
+    const state = sides[i];
+    const color = colors[i] ?? 'rgba(255,255,255,0.6)';
+
+    const base = state.stick ? { x: state.stick.originX, y: state.stick.originY } : controls.stick;
+    ctx.globalAlpha = 0.35;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(base.x, base.y, STICK_RADIUS, 0, Math.PI * 2);
+    ctx.stroke();
+    const dx = state.stick ? Math.max(-STICK_RADIUS, Math.min(STICK_RADIUS, state.stick.x - base.x)) : 0;
+    ctx.globalAlpha = state.stick ? 0.7 : 0.4;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(base.x + dx, base.y, 28, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.globalAlpha = state.jumpId !== null ? 0.7 : 0.35;
+    ctx.beginPath();
+    ctx.arc(controls.jump.x, controls.jump.y, JUMP_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = 0.9;
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '18px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('Jump', controls.jump.x, controls.jump.y);
+
+    // Only a joined side has something to leave.
+    if (colors[i]) {
+      ctx.globalAlpha = state.leaveId !== null ? 0.7 : 0.35;
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(controls.leave.x, controls.leave.y, LEAVE_RADIUS, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.font = '20px sans-serif';
+      ctx.fillText('×', controls.leave.x, controls.leave.y);
+    }
+  });
+  ctx.restore();
+}
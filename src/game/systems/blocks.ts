@@ -1,29 +1,25 @@
 import Matter, { Composite, Query, type Body, type Engine, Events } from 'matter-js';
 import type { Player } from '../Player';
-import type { LevelRect } from '../Game';
+import type { Entity } from '../entities/registry';
+import { DEFAULT_BLOCK_REQUIRED } from '../entities/block';
+import type { EventBus } from '../events';
 
 type BodyWithPrev = Body & { positionPrev: { x: number; y: number } };
 
 export function updateBlocks(
-  blockBodies: Body[],
-  blockDefs: Array<LevelRect & { required?: number; allowedPlayer?: number }>,
+  blocks: readonly Entity<'block'>[],
   playerSlots: Array<Player | null>,
-  blockPusherCounts: number[],
-  engine: Engine
+  engine: Engine,
+  events: EventBus
 ) {
-  if (blockBodies.length === 0) return;
+  if (blocks.length === 0) return;
   const allBodies = Composite.allBodies(engine.world);
   const supportLabels = new Set(['ground', 'platform', 'bridge', 'block', 'player']);
 
-  // Sort indices by Y position (descending) to process bottom blocks first
-  const indices = blockBodies.map((_, i) => i);
-  indices.sort((a, b) => blockBodies[b].position.y - blockBodies[a].position.y);
-
-  for (const i of indices) {
-    const body = blockBodies[i];
-    const def = blockDefs[i];
-    if (!def) continue;
+  // Sort by Y position (descending) to process bottom blocks first
+  const sorted = [...blocks].sort((a, b) => b.body.position.y - a.body.position.y);
 
+  for (const { id, def, body, state } of sorted) {
     const pushers = new Set<number>();
     const rightPushers = new Set<number>();
     const leftPushers = new Set<number>();
@@ -72,11 +68,11 @@ export function updateBlocks(
     if (rightPushers.size > 0) propagate(rightPushers, 1);
     if (leftPushers.size > 0) propagate(leftPushers, -1);
 
-    blockPusherCounts[i] = pushers.size;
-    const shouldMove =
-      allowedPlayer !== undefined
-        ? pushers.size > 0
-        : pushers.size >= (def.required ?? 1);
+    const movesWith = (count: number) => (allowedPlayer !== undefined ? count > 0 : count >= (def.required ?? DEFAULT_BLOCK_REQUIRED));
+    const wasMoving = movesWith(state.pushers);
+    state.pushers = pushers.size;
+    const shouldMove = movesWith(pushers.size);
+    if (shouldMove !== wasMoving) events.emit(shouldMove ? 'blockStarted' : 'blockStopped', { id });
     const groundCandidates = allBodies.filter(
       b => b !== body && supportLabels.has(b.label)
     );
@@ -134,8 +130,9 @@ export function updateBlocks(
   }
 }
 
-export function initBlockCarrying(engine: Engine, blockBodies: Body[]) {
+export function initBlockCarrying(engine: Engine, getBlockBodies: () => Body[]) {
   const onAfterUpdate = () => {
+    const blockBodies = getBlockBodies();
     if (blockBodies.length === 0) return;
     const allBodies = Composite.allBodies(engine.world);
     const supportLabels = new Set(['ground', 'platform', 'bridge', 'block', 'player']);
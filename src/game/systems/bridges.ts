@@ -1,26 +1,102 @@
 import Matter from 'matter-js';
 import type { Body } from 'matter-js';
 import type { Player } from '../Player';
-import type { BridgeDef } from '../Game';
+import type { BridgePath } from '../Game';
+import type { Entity } from '../entities/registry';
+import type { EventBus } from '../events';
+
+// True when a block sits right in front of the bridge in its direction of travel,
+// so moving would shove the bridge into it.
+function isObstructedByBlocks(body: Body, mx: number, my: number, blockBodies: Body[]): boolean {
+  if (blockBodies.length === 0) return false;
+  const tol = 2;
+  const horizontal = Math.abs(mx) >= Math.abs(my);
+  let regionMinX: number;
+  let regionMaxX: number;
+  let regionMinY: number;
+  let regionMaxY: number;
+  if (horizontal) {
+    const slice = 4;
+    if (mx > 0) {
+      regionMinX = body.bounds.max.x;
+      regionMaxX = body.bounds.max.x + slice;
+    } else {
+      regionMinX = body.bounds.min.x - slice;
+      regionMaxX = body.bounds.min.x;
+    }
+    regionMinY = body.bounds.min.y + tol;
+    regionMaxY = body.bounds.max.y - tol;
+  } else {
+    const slice = 4;
+    regionMinX = body.bounds.min.x + tol;
+    regionMaxX = body.bounds.max.x - tol;
+    if (my > 0) {
+      regionMinY = body.bounds.max.y;
+      regionMaxY = body.bounds.max.y + slice;
+    } else {
+      regionMinY = body.bounds.min.y - slice;
+      regionMaxY = body.bounds.min.y;
+    }
+  }
+  const region = { min: { x: regionMinX, y: regionMinY }, max: { x: regionMaxX, y: regionMaxY } };
+  let obstructors = Matter.Query.region(blockBodies, region);
+  if (horizontal && obstructors.length > 0) {
+    obstructors = obstructors.filter(b => b.bounds.max.y > body.bounds.min.y + tol);
+  }
+  if (!horizontal && my < 0 && obstructors.length > 0) {
+    obstructors = obstructors.filter(b => Math.abs(b.bounds.max.y - body.bounds.min.y) > tol);
+  }
+  return obstructors.length > 0;
+}
+
+export type BridgePathState = {
+  target: number;
+  direction: 1 | -1;
+};
+
+export function createBridgePathState(): BridgePathState {
+  return { target: 1, direction: 1 };
+}
+
+// Node 0 is the bridge's home position; the waypoints follow it in order.
+function pathNodeOffset(path: BridgePath, node: number): { x: number; y: number } {
+  return node <= 0 ? { x: 0, y: 0 } : path.waypoints[node - 1] ?? { x: 0, y: 0 };
+}
+
+function advancePathState(path: BridgePath, state: BridgePathState) {
+  const count = path.waypoints.length + 1;
+  if (path.mode === 'loop') {
+    state.target = (state.target + 1) % count;
+    return;
+  }
+  if (state.target + state.direction < 0 || state.target + state.direction >= count) {
+    state.direction = state.direction === 1 ? -1 : 1;
+  }
+  state.target += state.direction;
+}
+
+function isMoving(body: Body): boolean {
+  return Boolean(body.plugin.carryX || body.plugin.carryY);
+}
+
+function stopBridge(body: Body) {
+  Matter.Body.setVelocity(body, { x: 0, y: 0 });
+  Matter.Body.setAngularVelocity(body, 0);
+  body.plugin.carryX = 0;
+  body.plugin.carryY = 0;
+}
 
 export function updateBridges(
-  bridgeBodies: Body[],
-  bridgeDefs: BridgeDef[],
-  bridgeHomeCenters: Array<{ x: number; y: number }>,
-  bridgeActivated: boolean[],
-  bridgeLatched: boolean[],
-  bridgeCarryX: number[],
+  bridges: readonly Entity<'bridge'>[],
   blockBodies: Body[],
-  playerSlots: Array<Player | null>
+  playerSlots: Array<Player | null>,
+  events: EventBus
 ) {
-  if (bridgeBodies.length === 0) return;
+  if (bridges.length === 0) return;
   const playerBodies = playerSlots.filter((p): p is Player => Boolean(p)).map(p => p.body);
-  const step = 2;
-  for (let i = 0; i < bridgeBodies.length; i += 1) {
-    const body = bridgeBodies[i];
-    const def = bridgeDefs[i];
-    const home = bridgeHomeCenters[i];
-    if (!body || !def || !home) continue;
+  for (const { def, body, state } of bridges) {
+    const home = state.home;
+    const wasMoving = isMoving(body);
 
     let activeByPlayers = false;
     if (def.requiredPlayers && def.requiredPlayers > 0 && playerBodies.length > 0) {
@@ -32,78 +108,49 @@ export function updateBridges(
       activeByPlayers = count >= def.requiredPlayers;
     }
 
-    const active = Boolean(bridgeActivated[i]) || Boolean(bridgeLatched[i]) || activeByPlayers;
-    const target = active
-      ? { x: home.x + def.dx * def.distance, y: home.y + def.dy * def.distance }
-      : home;
+    const active = state.activated || state.latched || activeByPlayers;
+    const path = def.path && def.path.waypoints.length > 0 ? def.path : null;
+    const pathState = state.path;
+    let step = 2;
+    let target: { x: number; y: number };
+    if (path) {
+      // Button-driven paths pause wherever they are while unpowered.
+      if (path.trigger === 'button' && !active) {
+        stopBridge(body);
+        if (wasMoving) events.emit('bridgeStopped', { id: def.id });
+        continue;
+      }
+      step = path.speed;
+      const offset = pathNodeOffset(path, pathState.target);
+      target = { x: home.x + offset.x, y: home.y + offset.y };
+    } else {
+      target = active ? { x: home.x + def.dx * def.distance, y: home.y + def.dy * def.distance } : home;
+    }
 
     const dx = target.x - body.position.x;
     const dy = target.y - body.position.y;
     const dist = Math.hypot(dx, dy);
     if (dist < 0.001) {
-      bridgeCarryX[i] = 0;
-      Matter.Body.setVelocity(body, { x: 0, y: 0 });
-      Matter.Body.setAngularVelocity(body, 0);
-      body.plugin.carryX = 0;
-      body.plugin.carryY = 0;
+      if (path) advancePathState(path, pathState);
+      stopBridge(body);
+      if (wasMoving) events.emit('bridgeArrived', { id: def.id });
       continue;
     }
 
     const mag = Math.min(step, dist);
     const mx = (dx / dist) * mag;
     const my = (dy / dist) * mag;
-    if (blockBodies.length > 0) {
-      const tol = 2;
-      const horizontal = Math.abs(mx) >= Math.abs(my);
-      let regionMinX: number;
-      let regionMaxX: number;
-      let regionMinY: number;
-      let regionMaxY: number;
-      if (horizontal) {
-        const slice = 4;
-        if (mx > 0) {
-          regionMinX = body.bounds.max.x;
-          regionMaxX = body.bounds.max.x + slice;
-        } else {
-          regionMinX = body.bounds.min.x - slice;
-          regionMaxX = body.bounds.min.x;
-        }
-        regionMinY = body.bounds.min.y + tol;
-        regionMaxY = body.bounds.max.y - tol;
-      } else {
-        const slice = 4;
-        regionMinX = body.bounds.min.x + tol;
-        regionMaxX = body.bounds.max.x - tol;
-        if (my > 0) {
-          regionMinY = body.bounds.max.y;
-          regionMaxY = body.bounds.max.y + slice;
-        } else {
-          regionMinY = body.bounds.min.y - slice;
-          regionMaxY = body.bounds.min.y;
-        }
-      }
-      const region = { min: { x: regionMinX, y: regionMinY }, max: { x: regionMaxX, y: regionMaxY } };
-      let obstructors = Matter.Query.region(blockBodies, region);
-      if (horizontal && obstructors.length > 0) {
-        obstructors = obstructors.filter(b => b.bounds.max.y > body.bounds.min.y + tol);
-      }
-      if (!horizontal && my < 0 && obstructors.length > 0) {
-        obstructors = obstructors.filter(b => Math.abs(b.bounds.max.y - body.bounds.min.y) > tol);
-      }
-      if (obstructors.length > 0) {
-        bridgeCarryX[i] = 0;
-        Matter.Body.setVelocity(body, { x: 0, y: 0 });
-        Matter.Body.setAngularVelocity(body, 0);
-        body.plugin.carryX = 0;
-        body.plugin.carryY = 0;
-        continue;
-      }
+    if (isObstructedByBlocks(body, mx, my, blockBodies)) {
+      stopBridge(body);
+      if (wasMoving) events.emit('bridgeStopped', { id: def.id });
+      continue;
     }
+    if (!wasMoving) events.emit('bridgeStarted', { id: def.id });
     Matter.Body.setPosition(body, { x: body.position.x + mx, y: body.position.y + my });
     Matter.Body.setVelocity(body, { x: 0, y: 0 });
     Matter.Body.setAngularVelocity(body, 0);
-    bridgeCarryX[i] = mx;
     body.plugin.carryX = mx;
     body.plugin.carryY = my;
+    if (path && mag >= dist) advancePathState(path, pathState);
   }
 }
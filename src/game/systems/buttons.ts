@@ -1,30 +1,17 @@
 import Matter from 'matter-js';
 import type { Body } from 'matter-js';
 import type { Player } from '../Player';
-import type { LevelRect } from '../Game';
-
-export type ButtonDef = LevelRect & { id: number; targetBridgeId: number | null };
+import type { Entity } from '../entities/registry';
+import type { EventBus } from '../events';
 
 export function updateButtons(
-  buttonBodies: Body[],
-  buttonDefs: ButtonDef[],
+  buttons: readonly Entity<'button'>[],
   playerSlots: Array<Player | null>,
   blockBodies: Body[],
-  bridgeDefs: Array<LevelRect & { id: number; dx: number; dy: number; distance: number; permanent: boolean }>,
-  bridgeActivated: boolean[],
-  bridgeLatched: boolean[],
-  buttonPressed: boolean[]
+  events: EventBus
 ) {
-  if (bridgeActivated.length > 0) {
-    for (let i = 0; i < bridgeActivated.length; i += 1) bridgeActivated[i] = false;
-  }
-  if (buttonBodies.length === 0) return;
-
-  const activeBridgeIds = new Set<number>();
-  for (let i = 0; i < buttonBodies.length; i += 1) {
-    const body = buttonBodies[i];
-    const def = buttonDefs[i];
-    if (!body || !def) continue;
+  for (const button of buttons) {
+    const body = button.body;
 
     let pressed = false;
     for (const player of playerSlots) {
@@ -39,16 +26,7 @@ export function updateButtons(
       if (Matter.Query.collides(body, blockBodies).length > 0) pressed = true;
     }
 
-    buttonPressed[i] = pressed;
-    if (pressed && def.targetBridgeId !== null) activeBridgeIds.add(def.targetBridgeId);
-  }
-
-  if (activeBridgeIds.size === 0) return;
-  for (let i = 0; i < bridgeDefs.length; i += 1) {
-    const def = bridgeDefs[i];
-    if (!def) continue;
-    const active = activeBridgeIds.has(def.id);
-    bridgeActivated[i] = active;
-    if (active && def.permanent) bridgeLatched[i] = true;
+    if (pressed !== button.state.pressed) events.emit(pressed ? 'buttonPressed' : 'buttonReleased', { id: button.def.id });
+    button.state.pressed = pressed;
   }
 }
@@ -0,0 +1,26 @@
+import Matter from 'matter-js';
+import type { Player } from '../Player';
+import type { CheckpointDef } from '../Game';
+import type { Entity } from '../entities/registry';
+import type { EventBus } from '../events';
+
+// Returns the checkpoint a player just reached, or null when nobody touches a
+// checkpoint other than the one already active.
+export function updateCheckpoints(
+  checkpoints: readonly Entity<'checkpoint'>[],
+  playerSlots: Array<Player | null>,
+  activeCheckpointId: number | null,
+  events: EventBus
+): CheckpointDef | null {
+  if (checkpoints.length === 0) return null;
+  const playerBodies = playerSlots.filter((p): p is Player => Boolean(p)).map(p => p.body);
+  if (playerBodies.length === 0) return null;
+  for (const { def, body } of checkpoints) {
+    if (def.id === activeCheckpointId) continue;
+    if (Matter.Query.collides(body, playerBodies).length > 0) {
+      events.emit('checkpointReached', { id: def.id });
+      return def;
+    }
+  }
+  return null;
+}
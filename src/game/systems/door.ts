@@ -1,19 +1,23 @@
 import Matter from 'matter-js';
 import type { Body } from 'matter-js';
 import type { Player } from '../Player';
+import type { EventBus } from '../events';
 
 export function updateDoor(
   doorBody: Body | null,
   keyPoint: { x: number; y: number } | null,
   doorUnlocked: boolean,
+  doorPowered: boolean,
   playerSlots: Array<Player | null>,
   levelCompleted: boolean,
-  completionFrames: number
+  completionFrames: number,
+  frame: number,
+  events: EventBus
 ): { levelCompleted: boolean; completionFrames: number } {
   if (!doorBody) {
     return { levelCompleted: false, completionFrames: 0 };
   }
-  if (keyPoint && !doorUnlocked) {
+  if ((keyPoint && !doorUnlocked) || !doorPowered) {
     return { levelCompleted: false, completionFrames: 0 };
   }
 
@@ -25,7 +29,10 @@ export function updateDoor(
   const atDoor = activePlayers.filter(p => Matter.Query.collides(doorBody!, [p.body]).length > 0);
   if (atDoor.length === activePlayers.length) {
     completionFrames += 1;
-    if (completionFrames >= 15) levelCompleted = true;
+    if (completionFrames >= 15 && !levelCompleted) {
+      levelCompleted = true;
+      events.emit('levelCompleted', { frame });
+    }
   } else {
     completionFrames = 0;
     levelCompleted = false;
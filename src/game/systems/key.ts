@@ -2,6 +2,7 @@ import Matter from 'matter-js';
 import type { Body } from 'matter-js';
 import type { Player } from '../Player';
 import type { Engine } from 'matter-js';
+import type { EventBus } from '../events';
 
 export function updateKey(
   engine: Engine,
@@ -9,9 +10,11 @@ export function updateKey(
   keyCarrierSlot: number | null,
   playerSlots: Array<Player | null>,
   doorUnlocked: boolean,
-  doorBody: Body | null
-): { keyBody: Body | null; keyCarrierSlot: number | null; doorUnlocked: boolean } {
-  if (!keyBody) return { keyBody, keyCarrierSlot, doorUnlocked };
+  doorBody: Body | null,
+  events: EventBus
+): { keyBody: Body | null; keyCarrierSlot: number | null; doorUnlocked: boolean; pickedUpBy: number | null } {
+  let pickedUpBy: number | null = null;
+  if (!keyBody) return { keyBody, keyCarrierSlot, doorUnlocked, pickedUpBy };
 
   if (keyCarrierSlot === null) {
     for (let slot = 0; slot < playerSlots.length; slot += 1) {
@@ -19,6 +22,8 @@ export function updateKey(
       if (!player) continue;
       if (Matter.Query.collides(keyBody!, [player.body]).length > 0) {
         keyCarrierSlot = slot;
+        pickedUpBy = slot;
+        events.emit('keyPickedUp', { slot });
         break;
       }
     }
@@ -28,7 +33,7 @@ export function updateKey(
     const carrier = playerSlots[keyCarrierSlot];
     if (!carrier) {
       keyCarrierSlot = null;
-      return { keyBody, keyCarrierSlot, doorUnlocked };
+      return { keyBody, keyCarrierSlot, doorUnlocked, pickedUpBy };
     }
 
     Matter.Body.setPosition(keyBody, { x: carrier.body.position.x, y: carrier.body.position.y - 34 });
@@ -37,11 +42,12 @@ export function updateKey(
 
     if (!doorUnlocked && doorBody && Matter.Query.collides(doorBody, [carrier.body]).length > 0) {
       doorUnlocked = true;
+      events.emit('doorUnlocked', { slot: keyCarrierSlot });
       Matter.Composite.remove(engine.world, keyBody);
       keyBody = null;
       keyCarrierSlot = null;
     }
   }
 
-  return { keyBody, keyCarrierSlot, doorUnlocked };
+  return { keyBody, keyCarrierSlot, doorUnlocked, pickedUpBy };
 }
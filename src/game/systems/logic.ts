@@ -0,0 +1,90 @@
+import type { GateDef, LinkTarget } from '../Game';
+import { linkTargetKey } from '../entities/links';
+import type { Entity } from '../entities/registry';
+
+export type GateRuntime = {
+  output: boolean;
+  lastInput: boolean;
+  history: boolean[];
+};
+
+export function createGateRuntime(): GateRuntime {
+  return { output: false, lastInput: false, history: [] };
+}
+
+function stepGate(def: GateDef, state: GateRuntime, inputs: boolean[]): boolean {
+  const any = inputs.some(Boolean);
+  switch (def.kind) {
+    case 'and':
+      return inputs.length > 0 && inputs.every(Boolean);
+    case 'or':
+      return any;
+    case 'not':
+      return !any;
+    case 'toggle': {
+      const flipped = any && !state.lastInput ? !state.output : state.output;
+      state.lastInput = any;
+      return flipped;
+    }
+    case 'delay': {
+      const delay = Math.max(0, def.delayFrames ?? 0);
+      state.history.push(any);
+      let out = false;
+      while (state.history.length > delay) out = state.history.shift() ?? false;
+      return out;
+    }
+  }
+}
+
+// Evaluates the button -> gate -> target signal graph for one fixed step and
+// returns the keys of every target that is powered. Gates are evaluated on
+// demand so chains resolve in the same step; a gate that feeds back into
+// itself reads its own output from the previous step.
+export function updateLogic(
+  buttons: readonly Entity<'button'>[],
+  gates: readonly Entity<'gate'>[],
+  bridges: readonly Entity<'bridge'>[]
+): Set<string> {
+  for (const bridge of bridges) bridge.state.activated = false;
+
+  const gateIndex = new Map<number, number>();
+  gates.forEach((gate, i) => gateIndex.set(gate.def.id, i));
+  const gateInputs: Array<Array<() => boolean>> = gates.map(() => []);
+  const addInputs = (targets: LinkTarget[], signal: () => boolean) => {
+    for (const target of targets) {
+      if (target.kind !== 'gate') continue;
+      const idx = gateIndex.get(target.id);
+      if (idx !== undefined) gateInputs[idx].push(signal);
+    }
+  };
+
+  const status: Array<'pending' | 'busy' | 'done'> = gates.map(() => 'pending');
+  const evaluate = (idx: number): boolean => {
+    const { def, state } = gates[idx];
+    if (status[idx] !== 'pending') return state.output;
+    status[idx] = 'busy';
+    state.output = stepGate(def, state, gateInputs[idx].map(signal => signal()));
+    status[idx] = 'done';
+    return state.output;
+  };
+
+  buttons.forEach(button => addInputs(button.def.targets, () => button.state.pressed));
+  gates.forEach((gate, i) => addInputs(gate.def.targets, () => evaluate(i)));
+
+  const activeTargets = new Set<string>();
+  buttons.forEach(button => {
+    if (!button.state.pressed) return;
+    for (const target of button.def.targets) activeTargets.add(linkTargetKey(target));
+  });
+  gates.forEach((gate, i) => {
+    if (!evaluate(i)) return;
+    for (const target of gate.def.targets) activeTargets.add(linkTargetKey(target));
+  });
+
+  for (const bridge of bridges) {
+    const active = activeTargets.has(linkTargetKey({ kind: 'bridge', id: bridge.def.id }));
+    bridge.state.activated = active;
+    if (active && bridge.def.permanent) bridge.state.latched = true;
+  }
+  return activeTargets;
+}
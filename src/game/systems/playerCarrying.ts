@@ -24,7 +24,13 @@ export function initPlayerCarrying(
       const belowBodies = Query.region(candidates, regionBelow);
       
       let carry = 0;
+      // Upward motion is handled by the collision itself; a support moving down
+      // would otherwise drop out from under the player every frame.
+      let carryDown = 0;
       for (const support of belowBodies) {
+          if (support.label === 'bridge' && (support.plugin.carryY || 0) > carryDown) {
+              carryDown = support.plugin.carryY;
+          }
           let dx = 0;
           const s = support as unknown as BodyWithPrev;
           if (support.label === 'bridge') {
@@ -67,10 +73,10 @@ export function initPlayerCarrying(
           }
       }
 
-      if (Math.abs(carry) > 0.01) {
+      if (Math.abs(carry) > 0.01 || carryDown > 0.01) {
           Matter.Body.setPosition(player.body, { 
-              x: player.body.position.x + carry, 
-              y: player.body.position.y 
+              x: player.body.position.x + (Math.abs(carry) > 0.01 ? carry : 0), 
+              y: player.body.position.y + (carryDown > 0.01 ? carryDown : 0)
           });
       }
     }
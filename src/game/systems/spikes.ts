@@ -1,15 +1,34 @@
 import Matter from 'matter-js';
-import type { Body } from 'matter-js';
 import type { Player } from '../Player';
+import type { SpikeDef } from '../Game';
+import { linkTargetKey } from '../entities/links';
+import type { Entity } from '../entities/registry';
+import type { EventBus } from '../events';
 
-export function updateSpikes(spikeBodies: Body[], playerSlots: Array<Player | null>, onDeath: () => void) {
-  if (spikeBodies.length === 0) return;
+export function isSpikeRetracted(def: SpikeDef | undefined, activeTargets: Set<string>): boolean {
+  return def ? activeTargets.has(linkTargetKey({ kind: 'spike', id: def.id })) : false;
+}
+
+export function updateSpikes(
+  spikes: readonly Entity<'spike'>[],
+  activeTargets: Set<string>,
+  playerSlots: Array<Player | null>,
+  events: EventBus
+): number | null {
+  if (spikes.length === 0) return null;
+  const armed = spikes.filter(spike => !isSpikeRetracted(spike.def, activeTargets));
+  if (armed.length === 0) return null;
+  const armedBodies = armed.map(spike => spike.body);
   for (let slot = 0; slot < playerSlots.length; slot += 1) {
     const player = playerSlots[slot];
     if (!player) continue;
-    if (Matter.Query.collides(player.body, spikeBodies).length > 0) {
-      onDeath();
-      return;
+    const hit = Matter.Query.collides(player.body, armedBodies)[0];
+    if (hit) {
+      const body = hit.bodyA === player.body ? hit.bodyB : hit.bodyA;
+      // One death respawns the whole team, so later players aren't checked.
+      events.emit('playerDied', { slot, spikeId: armed[armedBodies.indexOf(body)]?.def.id ?? 0 });
+      return slot;
     }
   }
+  return null;
 }
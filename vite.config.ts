@@ -4,4 +4,9 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The simulation also runs under Node (npm run verify). matter-js is a UMD
+  // bundle whose named exports Node can't resolve, so SSR builds inline it.
+  ssr: {
+    noExternal: ['matter-js'],
+  },
 })